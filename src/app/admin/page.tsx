@@ -1,14 +1,39 @@
 "use client";
 
-import { useState } from 'react';
-import { fetchVideos, generateMetadata, parseHashtags, updateVideoMetadata } from '@/hooks/apiHooks';
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { fetchVideos, generateMetadata, parseHashtags, updateVideoMetadata, previewVectorReset, confirmVectorReset, findStaleVectors, startReembedJob, fetchVectorJob, reconcileVectors, fetchBrandSafetyRules, addBrandSafetyRule, deleteBrandSafetyRule, fetchTaxonomy, saveTaxonomy } from '@/hooks/apiHooks';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { VideoData } from '@/types';
+import { VideoData, VectorResetOptions, VectorResetResponse, StaleVectorsResponse, VectorJob, ReconcileResponse, BrandSafetyRule, BrandSafetyAction, TagCategory, Taxonomy, TaxonomyCategory } from '@/types';
+import { DEFAULT_TAXONOMY } from '@/utils/taxonomy';
 
 // Content Index IDs from .env
 const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || 'default-ads-index';
 const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || 'default-content-index';
 
+// Taxonomy category as edited in the form: values comma separated, synonyms as "alias = value" lines
+type TaxonomyDraft = Omit<TaxonomyCategory, 'values' | 'synonyms'> & { values: string; synonyms: string };
+
+const toTaxonomyDrafts = (taxonomy: Taxonomy): TaxonomyDraft[] =>
+  taxonomy.categories.map(category => ({
+    ...category,
+    values: category.values.join(', '),
+    synonyms: Object.entries(category.synonyms).map(([alias, value]) => `${alias} = ${value}`).join('\n')
+  }));
+
+const fromTaxonomyDrafts = (drafts: TaxonomyDraft[]): Taxonomy => ({
+  categories: drafts.map(draft => ({
+    ...draft,
+    values: draft.values.split(','),
+    synonyms: Object.fromEntries(
+      draft.synonyms
+        .split('\n')
+        .filter(line => line.includes('='))
+        .map(line => [line.slice(0, line.indexOf('=')).trim(), line.slice(line.indexOf('=') + 1).trim()])
+    )
+  }))
+});
+
 export default function AdminPage() {
   const [isAdsProcessing, setIsAdsProcessing] = useState(false);
   const [isContentProcessing, setIsContentProcessing] = useState(false);
@@ -19,6 +44,31 @@ export default function AdminPage() {
   const [contentProcessLimit, setContentProcessLimit] = useState<number>(0); // 0 means process all
   const [processOnlyNoMetadata, setProcessOnlyNoMetadata] = useState<boolean>(false);
   const [configError, setConfigError] = useState<string | null>(null);
+  const [resetMode, setResetMode] = useState<'all' | 'index' | 'category' | 'model'>('index');
+  const [resetIndexId, setResetIndexId] = useState<string>(contentIndexId);
+  const [resetCategory, setResetCategory] = useState<'ad' | 'content'>('content');
+  const [resetModel, setResetModel] = useState<string>('');
+  const [resetPreview, setResetPreview] = useState<VectorResetResponse | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+  const [staleVectors, setStaleVectors] = useState<StaleVectorsResponse | null>(null);
+  const [vectorJob, setVectorJob] = useState<VectorJob | null>(null);
+  const [isCheckingStale, setIsCheckingStale] = useState(false);
+  const [reconcileReport, setReconcileReport] = useState<ReconcileResponse | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [brandSafetyRules, setBrandSafetyRules] = useState<BrandSafetyRule[]>([]);
+  const queryClient = useQueryClient();
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+  const [taxonomyDrafts, setTaxonomyDrafts] = useState<TaxonomyDraft[]>(() => toTaxonomyDrafts(DEFAULT_TAXONOMY));
+  const [isSavingTaxonomy, setIsSavingTaxonomy] = useState(false);
+  const [ruleDraft, setRuleDraft] = useState({
+    name: '',
+    scope: 'all' as 'all' | 'ad' | 'brand',
+    scopeValue: '',
+    category: 'emotions' as TagCategory,
+    action: 'exclude' as BrandSafetyAction,
+    values: '',
+    penalty: 0.5
+  });
 
   const addLog = (message: string) => {
     setLogs(prev => [message, ...prev].slice(0, 10)); // Keep last 100 logs
@@ -119,7 +169,7 @@ export default function AdminPage() {
           addLog(`Generated metadata for ${videoId}: ${hashtagText}`);
 
           // Parse hashtags into metadata structure
-          const metadata = parseHashtags(hashtagText);
+          const metadata = parseHashtags(hashtagText, taxonomy);
 
           // Add delay before updating to avoid rate limiting
           await new Promise(resolve => setTimeout(resolve, 300));
@@ -285,6 +335,214 @@ export default function AdminPage() {
     regenerateAllMetadata(contentIndexId, false);
   };
 
+  // Build the reset request for the selected mode
+  const getResetOptions = (): VectorResetOptions => {
+    switch (resetMode) {
+      case 'all':
+        return { resetAll: true };
+      case 'index':
+        return { scope: { indexId: resetIndexId } };
+      case 'category':
+        return { scope: { category: resetCategory } };
+      case 'model':
+        // An empty model name targets vectors stored before models were recorded
+        return { scope: { embeddingModel: resetModel.trim() || null } };
+    }
+  };
+
+  // Dry run first so the user sees how many vectors will be removed
+  const handlePreviewReset = async () => {
+    setIsResetting(true);
+    setResetPreview(null);
+    try {
+      const preview = await previewVectorReset(getResetOptions());
+      setResetPreview(preview);
+      addLog(`Reset preview: ${preview.message}`);
+    } catch (error) {
+      addLog(`❌ Error previewing reset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  const handleConfirmReset = async () => {
+    if (!resetPreview?.confirmationToken) return;
+
+    setIsResetting(true);
+    try {
+      const result = await confirmVectorReset(getResetOptions(), resetPreview.confirmationToken);
+      addLog(`✅ ${result.message}`);
+    } catch (error) {
+      addLog(`❌ Error resetting vectors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setResetPreview(null);
+      setIsResetting(false);
+    }
+  };
+
+  const handleFindStaleVectors = async () => {
+    setIsCheckingStale(true);
+    try {
+      const stale = await findStaleVectors();
+      setStaleVectors(stale);
+      addLog(`Found ${stale.staleVectorCount} vectors in ${stale.videos.length} videos not embedded with ${stale.currentModel}`);
+      if (stale.unmappedIds.length > 0) {
+        addLog(`⚠️ ${stale.unmappedIds.length} stale vectors still use title-based IDs. Run the vector ID migration first.`);
+      }
+    } catch (error) {
+      addLog(`❌ Error finding stale vectors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsCheckingStale(false);
+    }
+  };
+
+  const handleStartReembed = async () => {
+    try {
+      const job = await startReembedJob();
+      setVectorJob(job);
+      addLog(`🔄 Started re-embedding ${job.total} videos with ${staleVectors?.currentModel}`);
+    } catch (error) {
+      addLog(`❌ Error starting re-embed job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCheckConsistency = async () => {
+    setIsReconciling(true);
+    try {
+      const report = await reconcileVectors();
+      setReconcileReport(report);
+      report.indexes.forEach(index => {
+        addLog(`Index ${index.indexId}: ${index.orphans.length} orphaned, ${index.missing.length} missing, ${index.partial.length} partial, ${index.staleModel.length} stale, ${index.complete} complete`);
+      });
+    } catch (error) {
+      addLog(`❌ Error checking vector consistency: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setIsReconciling(true);
+    try {
+      const result = await reconcileVectors({ deleteOrphans: true, ingestMissing: true });
+      addLog(`✅ Deleted ${result.deletedOrphanVectors || 0} orphaned vectors`);
+      if (result.job) {
+        setVectorJob(result.job);
+        addLog(`🔄 Started ingesting ${result.job.total} missing or partial videos`);
+      }
+      setReconcileReport(null);
+    } catch (error) {
+      addLog(`❌ Error repairing vectors: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  // Poll the background vector job until it finishes
+  useEffect(() => {
+    if (!vectorJob || vectorJob.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const job = await fetchVectorJob(vectorJob.id);
+        setVectorJob(job);
+        if (job.status !== 'running') {
+          addLog(`✅ ${job.kind === 'reembed' ? 'Re-embedded' : 'Ingested'} ${job.succeeded}/${job.total} videos`);
+          job.failures.forEach(failure => addLog(`❌ ${failure.videoId}: ${failure.reason}`));
+          setStaleVectors(null);
+        }
+      } catch (error) {
+        addLog(`❌ Error checking ${vectorJob.kind} job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }, 3000);
+
+    return () => clearTimeout(timer);
+  }, [vectorJob]);
+
+  useEffect(() => {
+    fetchBrandSafetyRules()
+      .then(setBrandSafetyRules)
+      .catch(error => addLog(`❌ Error loading brand-safety rules: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  }, []);
+
+  const handleAddRule = async () => {
+    try {
+      const rule = await addBrandSafetyRule({
+        name: ruleDraft.name,
+        adId: ruleDraft.scope === 'ad' ? ruleDraft.scopeValue.trim() : undefined,
+        brand: ruleDraft.scope === 'brand' ? ruleDraft.scopeValue.trim() : undefined,
+        category: ruleDraft.category,
+        action: ruleDraft.action,
+        values: ruleDraft.values.split(','),
+        penalty: ruleDraft.action === 'downrank' ? ruleDraft.penalty : undefined
+      });
+      setBrandSafetyRules(prev => [...prev, rule]);
+      setRuleDraft(prev => ({ ...prev, name: '', values: '' }));
+      addLog(`✅ Added brand-safety rule "${rule.name}"`);
+    } catch (error) {
+      addLog(`❌ Error adding brand-safety rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeleteRule = async (rule: BrandSafetyRule) => {
+    try {
+      await deleteBrandSafetyRule(rule.id);
+      setBrandSafetyRules(prev => prev.filter(item => item.id !== rule.id));
+      addLog(`✅ Deleted brand-safety rule "${rule.name}"`);
+    } catch (error) {
+      addLog(`❌ Error deleting brand-safety rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxonomy()
+      .then(loaded => {
+        setTaxonomy(loaded);
+        setTaxonomyDrafts(toTaxonomyDrafts(loaded));
+      })
+      .catch(error => addLog(`❌ Error loading taxonomy: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  }, []);
+
+  const updateTaxonomyDraft = (id: TagCategory, changes: Partial<TaxonomyDraft>) => {
+    setTaxonomyDrafts(prev => prev.map(draft => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSaveTaxonomy = async () => {
+    setIsSavingTaxonomy(true);
+    try {
+      const saved = await saveTaxonomy(fromTaxonomyDrafts(taxonomyDrafts));
+      setTaxonomy(saved);
+      setTaxonomyDrafts(toTaxonomyDrafts(saved));
+      // Library pages read the taxonomy through the query cache
+      queryClient.setQueryData(['taxonomy'], saved);
+      addLog('✅ Saved tagging taxonomy');
+    } catch (error) {
+      addLog(`❌ Error saving taxonomy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSavingTaxonomy(false);
+    }
+  };
+
+  const isJobRunning = vectorJob?.status === 'running';
+  const needsRepair = !!reconcileReport?.indexes.some(index =>
+    index.orphans.length > 0 || index.missing.length > 0 || index.partial.length > 0
+  );
+
+  const renderJobProgress = (job: VectorJob, label: string) => (
+    <div className="mt-4">
+      <p className="text-sm text-gray-700 mb-1">
+        {job.status === 'running' ? label : 'Finished'}: {job.processed} / {job.total}
+        {job.failures.length > 0 && ` (${job.failures.length} failed)`}
+      </p>
+      <div className="w-full bg-gray-200 rounded-full h-2.5">
+        <div
+          className="bg-black h-2.5 rounded-full"
+          style={{ width: `${job.total ? (job.processed / job.total) * 100 : 100}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+
   // No need for custom sidebar, using the updated Sidebar component
 
   return (
@@ -460,6 +718,399 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* Vector Store Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Vector Store</h2>
+          <p className="mb-4 text-gray-600">
+            Remove stored embeddings. Preview the reset first to see how many vectors will be deleted.
+          </p>
+
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reset scope</label>
+              <select
+                value={resetMode}
+                onChange={(e) => {
+                  setResetMode(e.target.value as typeof resetMode);
+                  setResetPreview(null);
+                }}
+                disabled={isResetting}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                <option value="index">By index</option>
+                <option value="category">By category</option>
+                <option value="model">By embedding model</option>
+                <option value="all">Everything</option>
+              </select>
+            </div>
+
+            <div className="flex-1">
+              {resetMode === 'index' && (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Index</label>
+                  <select
+                    value={resetIndexId}
+                    onChange={(e) => {
+                      setResetIndexId(e.target.value);
+                      setResetPreview(null);
+                    }}
+                    disabled={isResetting}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value={adsIndexId}>Ads Library ({adsIndexId})</option>
+                    <option value={contentIndexId}>Content Library ({contentIndexId})</option>
+                  </select>
+                </>
+              )}
+              {resetMode === 'category' && (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                  <select
+                    value={resetCategory}
+                    onChange={(e) => {
+                      setResetCategory(e.target.value as 'ad' | 'content');
+                      setResetPreview(null);
+                    }}
+                    disabled={isResetting}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="ad">Ad</option>
+                    <option value="content">Content</option>
+                  </select>
+                </>
+              )}
+              {resetMode === 'model' && (
+                <>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Embedding model</label>
+                  <input
+                    type="text"
+                    value={resetModel}
+                    onChange={(e) => {
+                      setResetModel(e.target.value);
+                      setResetPreview(null);
+                    }}
+                    disabled={isResetting}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                    placeholder="Leave empty for vectors without a recorded model"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <button
+              onClick={handlePreviewReset}
+              disabled={isResetting}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                isResetting ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+              }`}
+            >
+              Preview Reset
+            </button>
+            <button
+              onClick={handleConfirmReset}
+              disabled={isResetting || !resetPreview?.confirmationToken || !resetPreview.count}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                isResetting || !resetPreview?.confirmationToken || !resetPreview.count
+                  ? 'bg-gray-400'
+                  : 'bg-red-600 hover:bg-red-500'
+              }`}
+            >
+              {resetPreview?.count ? `Delete ${resetPreview.count} Vectors` : 'Delete Vectors'}
+            </button>
+          </div>
+
+          {resetPreview && (
+            <p className="mt-2 text-sm text-gray-500">{resetPreview.message}</p>
+          )}
+        </div>
+
+        {/* Embedding Model Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Embedding Model</h2>
+          <p className="mb-4 text-gray-600">
+            Find vectors produced by an older embedding model and re-embed them in the background.
+            {staleVectors && ` Current model: ${staleVectors.currentModel}.`}
+          </p>
+
+          <div className="flex gap-4">
+            <button
+              onClick={handleFindStaleVectors}
+              disabled={isCheckingStale || isJobRunning}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                isCheckingStale || isJobRunning ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+              }`}
+            >
+              {isCheckingStale ? 'Checking...' : 'Find Stale Vectors'}
+            </button>
+            <button
+              onClick={handleStartReembed}
+              disabled={!staleVectors?.videos.length || isJobRunning}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                !staleVectors?.videos.length || isJobRunning
+                  ? 'bg-gray-400'
+                  : 'bg-black hover:bg-black/60'
+              }`}
+            >
+              {staleVectors?.videos.length ? `Re-embed ${staleVectors.videos.length} Videos` : 'Re-embed Videos'}
+            </button>
+          </div>
+
+          {staleVectors && (
+            <p className="mt-2 text-sm text-gray-500">
+              {staleVectors.staleVectorCount} stale vectors in {staleVectors.videos.length} videos
+            </p>
+          )}
+
+          {vectorJob?.kind === 'reembed' && renderJobProgress(vectorJob, 'Re-embedding')}
+        </div>
+
+        {/* Reconciliation Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Reconciliation</h2>
+          <p className="mb-4 text-gray-600">
+            Compare both Twelve Labs indexes with the vector store. Repair deletes vectors of videos that no longer exist and ingests missing or partial videos.
+          </p>
+
+          <div className="flex gap-4">
+            <button
+              onClick={handleCheckConsistency}
+              disabled={isReconciling || isJobRunning}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                isReconciling || isJobRunning ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+              }`}
+            >
+              {isReconciling ? 'Checking...' : 'Check Consistency'}
+            </button>
+            <button
+              onClick={handleRepair}
+              disabled={isReconciling || isJobRunning || !needsRepair}
+              className={`cursor-pointer flex-1 py-3 px-4 rounded-lg font-medium text-white ${
+                isReconciling || isJobRunning || !needsRepair ? 'bg-gray-400' : 'bg-red-600 hover:bg-red-500'
+              }`}
+            >
+              Repair
+            </button>
+          </div>
+
+          {reconcileReport && (
+            <table className="mt-4 w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="py-1">Index</th>
+                  <th className="py-1">Videos</th>
+                  <th className="py-1">Orphaned</th>
+                  <th className="py-1">Missing</th>
+                  <th className="py-1">Partial</th>
+                  <th className="py-1">Stale model</th>
+                  <th className="py-1">Complete</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reconcileReport.indexes.map(index => (
+                  <tr key={index.indexId}>
+                    <td className="py-1">{index.indexId === adsIndexId ? 'Ads Library' : 'Content Library'}</td>
+                    <td className="py-1">{index.videoCount}</td>
+                    <td className="py-1">{index.orphans.length}</td>
+                    <td className="py-1">{index.missing.length}</td>
+                    <td className="py-1">{index.partial.length}</td>
+                    <td className="py-1">{index.staleModel.length}</td>
+                    <td className="py-1">{index.complete}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {vectorJob?.kind === 'reconcile' && renderJobProgress(vectorJob, 'Ingesting')}
+        </div>
+
+        {/* Brand Safety Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Brand Safety Rules</h2>
+          <p className="mb-4 text-gray-600">
+            Rules run on every contextual analysis. Exclude removes content with any of the values, include removes content with none of them, and down-rank multiplies the score by the penalty.
+          </p>
+
+          {brandSafetyRules.length > 0 && (
+            <table className="mb-4 w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="py-1">Name</th>
+                  <th className="py-1">Applies to</th>
+                  <th className="py-1">Rule</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {brandSafetyRules.map(rule => (
+                  <tr key={rule.id}>
+                    <td className="py-1">{rule.name}</td>
+                    <td className="py-1">{rule.adId ? `Ad ${rule.adId}` : rule.brand ? `Brand ${rule.brand}` : 'All ads'}</td>
+                    <td className="py-1">
+                      {rule.action} {rule.category}: {rule.values.join(', ')}
+                      {rule.action === 'downrank' && ` (×${rule.penalty})`}
+                    </td>
+                    <td className="py-1 text-right">
+                      <button onClick={() => handleDeleteRule(rule)} className="cursor-pointer text-red-600 hover:text-red-500">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="grid grid-cols-2 gap-3 text-sm">
+            <input
+              value={ruleDraft.name}
+              onChange={(e) => setRuleDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Rule name"
+              className="p-2 border border-gray-300 rounded-md"
+            />
+            <div className="flex gap-2">
+              <select
+                value={ruleDraft.scope}
+                onChange={(e) => setRuleDraft(prev => ({ ...prev, scope: e.target.value as 'all' | 'ad' | 'brand' }))}
+                className="p-2 border border-gray-300 rounded-md"
+              >
+                <option value="all">All ads</option>
+                <option value="ad">One ad</option>
+                <option value="brand">One brand</option>
+              </select>
+              {ruleDraft.scope !== 'all' && (
+                <input
+                  value={ruleDraft.scopeValue}
+                  onChange={(e) => setRuleDraft(prev => ({ ...prev, scopeValue: e.target.value }))}
+                  placeholder={ruleDraft.scope === 'ad' ? 'Ad video ID' : 'Brand'}
+                  className="flex-1 p-2 border border-gray-300 rounded-md"
+                />
+              )}
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={ruleDraft.action}
+                onChange={(e) => setRuleDraft(prev => ({ ...prev, action: e.target.value as BrandSafetyAction }))}
+                className="p-2 border border-gray-300 rounded-md"
+              >
+                <option value="exclude">Exclude</option>
+                <option value="include">Include only</option>
+                <option value="downrank">Down-rank</option>
+              </select>
+              <select
+                value={ruleDraft.category}
+                onChange={(e) => setRuleDraft(prev => ({ ...prev, category: e.target.value as TagCategory }))}
+                className="p-2 border border-gray-300 rounded-md"
+              >
+                {taxonomy.categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.label}</option>
+                ))}
+              </select>
+              {ruleDraft.action === 'downrank' && (
+                <input
+                  type="number"
+                  min={0}
+                  max={0.99}
+                  step={0.05}
+                  value={ruleDraft.penalty}
+                  onChange={(e) => setRuleDraft(prev => ({ ...prev, penalty: Number(e.target.value) }))}
+                  className="w-20 p-2 border border-gray-300 rounded-md"
+                />
+              )}
+            </div>
+            <input
+              value={ruleDraft.values}
+              onChange={(e) => setRuleDraft(prev => ({ ...prev, values: e.target.value }))}
+              placeholder="Values, comma separated (e.g. anger, fear, sorrow)"
+              className="p-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <button
+            onClick={handleAddRule}
+            disabled={!ruleDraft.name.trim() || !ruleDraft.values.trim()}
+            className={`cursor-pointer mt-4 py-2 px-4 rounded-lg font-medium text-white ${
+              !ruleDraft.name.trim() || !ruleDraft.values.trim() ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+            }`}
+          >
+            Add Rule
+          </button>
+        </div>
+
+        {/* Taxonomy Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Tagging Taxonomy</h2>
+          <p className="mb-4 text-gray-600">
+            Categories and values used to generate metadata, normalize generated hashtags and build the library filters. Closed categories only keep their allowed values; open categories accept any value and use the listed ones to classify hashtags.
+          </p>
+
+          <div className="space-y-4 text-sm">
+            {taxonomyDrafts.map(draft => (
+              <div key={draft.id} className="grid grid-cols-4 gap-3 items-start">
+                <div className="space-y-2">
+                  <input
+                    value={draft.label}
+                    onChange={(e) => updateTaxonomyDraft(draft.id, { label: e.target.value })}
+                    placeholder="Prompt label"
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  />
+                  <input
+                    value={draft.filterLabel}
+                    onChange={(e) => updateTaxonomyDraft(draft.id, { filterLabel: e.target.value })}
+                    placeholder="Filter label"
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                  />
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.open}
+                      onChange={(e) => updateTaxonomyDraft(draft.id, { open: e.target.checked })}
+                    />
+                    Open vocabulary
+                  </label>
+                </div>
+                <textarea
+                  value={draft.values}
+                  onChange={(e) => updateTaxonomyDraft(draft.id, { values: e.target.value })}
+                  placeholder={draft.open ? 'Known values, comma separated' : 'Allowed values, comma separated'}
+                  rows={4}
+                  className="col-span-2 p-2 border border-gray-300 rounded-md"
+                />
+                <textarea
+                  value={draft.synonyms}
+                  onChange={(e) => updateTaxonomyDraft(draft.id, { synonyms: e.target.value })}
+                  placeholder={'Synonyms, one per line\n(e.g. women = Female)'}
+                  rows={4}
+                  className="p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-3 mt-4">
+            <button
+              onClick={handleSaveTaxonomy}
+              disabled={isSavingTaxonomy}
+              className={`cursor-pointer py-2 px-4 rounded-lg font-medium text-white ${
+                isSavingTaxonomy ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+              }`}
+            >
+              {isSavingTaxonomy ? 'Saving...' : 'Save Taxonomy'}
+            </button>
+            <button
+              onClick={() => setTaxonomyDrafts(toTaxonomyDrafts(DEFAULT_TAXONOMY))}
+              disabled={isSavingTaxonomy}
+              className="cursor-pointer py-2 px-4 rounded-lg font-medium border border-gray-300 hover:bg-gray-50"
+            >
+              Restore Defaults
+            </button>
+          </div>
+          {taxonomy.updatedAt && (
+            <p className="mt-2 text-xs text-gray-500">Last saved {new Date(taxonomy.updatedAt).toLocaleString()}</p>
+          )}
+        </div>
+
         {/* Logs Section */}
         <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
           <h2 className="text-xl font-semibold mb-4">Process Logs</h2>
@@ -20,8 +20,10 @@ import {
   convertMetadataToTags,
   fetchVideoDetails,
   fetchIndexingTasks,
+  fetchTaxonomy,
 } from '@/hooks/apiHooks';
 import FilterMenu, { ActiveFilters, useFilterState } from '@/components/FilterMenu';
+import { DEFAULT_TAXONOMY } from '@/utils/taxonomy';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -76,6 +78,12 @@ export default function AdsLibrary() {
     staleTime: 0, // Always get fresh data
   });
 
+  // Tagging taxonomy for parsing generated metadata and building the filters
+  const { data: taxonomy = DEFAULT_TAXONOMY } = useQuery({
+    queryKey: ['taxonomy'],
+    queryFn: fetchTaxonomy,
+  });
+
   // Replace the filter state with the useFilterState hook
   const {
     filterOptions,
@@ -95,7 +103,7 @@ export default function AdsLibrary() {
     handleFilter,
     handleFilterCategorySelect,
     closeFilterMenu,
-  } = useFilterState(adItems);
+  } = useFilterState(adItems, taxonomy);
 
   // Fetch videos
   const {
@@ -298,7 +306,7 @@ export default function AdsLibrary() {
         const hashtagText = await generateMetadata(videoId);
 
         if (hashtagText) {
-          const metadata = parseHashtags(hashtagText);
+          const metadata = parseHashtags(hashtagText, taxonomy);
 
           await updateVideoMetadata(videoId, adsIndexId, metadata);
 
@@ -331,7 +339,7 @@ export default function AdsLibrary() {
       setVideosInProcessing(prev => prev.filter(id => id !== videoId));
       return false;
     }
-  }, [processedVideoIds, videosInProcessing]);
+  }, [processedVideoIds, videosInProcessing, taxonomy]);
 
   // Function to filter videos that need metadata processing
   const filterVideosNeedingMetadata = (videos: VideoData[], processedIds: Set<string>, inProcessingIds: string[]) => {
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { AllocationRequest } from '@/types';
+import { getLatestMatchMatrix } from '@/utils/matchMatrix';
+import { allocateInventory, resolveAllocationRequest } from '@/utils/allocation';
+import { listIndexVideos } from '@/utils/twelveLabs';
+import { getBrandSafetyRules } from '@/utils/brandSafety';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+
+// POST { ads: [{ adId, budget, maxPerContent? }], contentCapacity?, defaultContentCapacity?, defaultMaxPerContent?,
+// minScore?, competitorGroups? } allocates impressions using the scores of the latest finished match matrix
+export async function POST(req: Request) {
+  try {
+    const input = await req.json() as Partial<AllocationRequest>;
+
+    const { request, error } = resolveAllocationRequest(input);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const matrix = await getLatestMatchMatrix();
+    if (!matrix) {
+      return NextResponse.json({ error: 'No match matrix has been computed yet' }, { status: 404 });
+    }
+    if (matrix.status === 'running') {
+      return NextResponse.json({ error: 'The match matrix is still being computed' }, { status: 409 });
+    }
+    if (matrix.status === 'failed') {
+      return NextResponse.json({ error: 'The latest match matrix failed or was interrupted; compute it again' }, { status: 409 });
+    }
+
+    // Brands come from the ads' metadata for competitive separation; content tags are checked against the brand-safety rules
+    const [adVideos, contentVideos, rules, taxonomy] = await Promise.all([
+      listIndexVideos(matrix.adsIndexId),
+      listIndexVideos(matrix.contentIndexId),
+      getBrandSafetyRules(),
+      getTaxonomy()
+    ]);
+    const ads = new Map(adVideos.map(video => [video._id, video]));
+    const contents = new Map(contentVideos.map(video => [video._id, video]));
+    const plan = allocateInventory(matrix, ads, contents, rules, taxonomy, request);
+    console.log(`✅ Allocated ${plan.totalImpressions} impressions in ${plan.placements.length} placements, ${plan.shortfalls.length} ads short`);
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('❌ Error allocating inventory:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to allocate inventory',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
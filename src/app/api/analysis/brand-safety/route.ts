@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { AnalysisDirection, BrandSafetyResponse, EmbeddingSearchResult } from '@/types';
+import { fetchVideo, listIndexVideosCached } from '@/utils/twelveLabs';
+import { applyBrandSafetyRules, getBrandSafetyRules } from '@/utils/brandSafety';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+
+// POST { videoId, direction?, results } filters and down-ranks analysis results with the stored rules.
+// videoId is the ad for 'ad_to_content' (the default) and the content video for 'content_to_ads'.
+export async function POST(req: Request) {
+  try {
+    const { videoId, direction = 'ad_to_content', results } = await req.json() as {
+      videoId?: string;
+      direction?: AnalysisDirection;
+      results?: EmbeddingSearchResult[];
+    };
+    const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+    const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+
+    if (!videoId || !Array.isArray(results)) {
+      return NextResponse.json({ error: 'videoId and results are required' }, { status: 400 });
+    }
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const rules = await getBrandSafetyRules();
+    if (rules.length === 0) {
+      const response: BrandSafetyResponse = { results, excluded: [] };
+      return NextResponse.json(response);
+    }
+
+    const isAdSource = direction === 'ad_to_content';
+    const { video: sourceVideo, status, details } = await fetchVideo(isAdSource ? adsIndexId : contentIndexId, videoId);
+    if (!sourceVideo) {
+      return NextResponse.json({ error: `Failed to fetch video ${videoId}`, details }, { status });
+    }
+
+    // Results only carry vector metadata, so their tags come from the index
+    const [indexVideos, taxonomy] = await Promise.all([
+      listIndexVideosCached(isAdSource ? contentIndexId : adsIndexId),
+      getTaxonomy()
+    ]);
+    const resultVideos = new Map(indexVideos.map(video => [video._id, video]));
+
+    const response: BrandSafetyResponse = applyBrandSafetyRules(results, rules, taxonomy, result => {
+      const resultVideo = resultVideos.get(result.metadata?.tl_video_id || '');
+      return isAdSource
+        ? { ad: sourceVideo, content: resultVideo }
+        : { ad: resultVideo, content: sourceVideo };
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('❌ Error applying brand-safety rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to apply brand-safety rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
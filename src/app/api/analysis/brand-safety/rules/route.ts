@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { BrandSafetyRule } from '@/types';
+import { appendBrandSafetyRule, createBrandSafetyRule, getBrandSafetyRules, removeBrandSafetyRule } from '@/utils/brandSafety';
+import { analysisStoreUnsupported } from '@/utils/runtime';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rules: await getBrandSafetyRules() });
+  } catch (error) {
+    console.error('❌ Error reading brand-safety rules:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read brand-safety rules',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { name, category, values, action, adId?, brand?, penalty? } adds a rule
+export async function POST(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const input = await req.json() as Partial<BrandSafetyRule>;
+
+    const { rule, error } = createBrandSafetyRule(input);
+    if (!rule) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await appendBrandSafetyRule(rule);
+    console.log(`✅ Added brand-safety rule "${rule.name}" (${rule.action} ${rule.category})`);
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('❌ Error adding brand-safety rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add brand-safety rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id=... removes a rule
+export async function DELETE(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    if (!await removeBrandSafetyRule(id)) {
+      return NextResponse.json({ error: `Rule ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting brand-safety rule:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete brand-safety rule',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { AdBreakCandidate, ChapterWithMetadata } from '@/types';
+import { fetchVideoChapters, listIndexVideos } from '@/utils/twelveLabs';
+import { getVectorStore } from '@/utils/vectorStore';
+import { planAdBreaks } from '@/utils/adBreakPlanner';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+
+export const maxDuration = 60;
+
+const MAX_CANDIDATES = 20;
+
+// POST { contentId, ads: [{ adId, score? }], chapters? } assigns the best candidate ad to each chapter break.
+// Chapters are generated when not supplied.
+export async function POST(req: Request) {
+  try {
+    const { contentId, ads: candidates, chapters: requestedChapters } = await req.json() as {
+      contentId?: string;
+      ads?: AdBreakCandidate[];
+      chapters?: ChapterWithMetadata[];
+    };
+    const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+    const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+
+    if (!contentId || !Array.isArray(candidates) || candidates.length === 0) {
+      return NextResponse.json({ error: 'contentId and a non-empty ads array are required' }, { status: 400 });
+    }
+    if (candidates.length > MAX_CANDIDATES || candidates.some(candidate => typeof candidate?.adId !== 'string')) {
+      return NextResponse.json({ error: `ads must contain 1 to ${MAX_CANDIDATES} entries with an adId` }, { status: 400 });
+    }
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const chapters = Array.isArray(requestedChapters) && requestedChapters.length > 0
+      ? requestedChapters
+      : (await fetchVideoChapters(contentId)).chapters as ChapterWithMetadata[] || [];
+    if (chapters.length === 0) {
+      return NextResponse.json({ error: `No chapters available for video ${contentId}` }, { status: 422 });
+    }
+
+    const ads = new Map((await listIndexVideos(adsIndexId)).map(video => [video._id, video]));
+    const plan = await planAdBreaks(getVectorStore(), {
+      contentId,
+      contentIndexId,
+      adsIndexId,
+      candidates,
+      chapters,
+      ads,
+      taxonomy: await getTaxonomy()
+    });
+    console.log(`✅ Planned ${plan.breaks.length} ad breaks for ${contentId} from ${candidates.length} ads`);
+
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('❌ Error planning ad breaks:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to plan ad breaks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { FusionOptions } from '@/types';
+import { analyzeCampaign, getCampaigns } from '@/utils/campaigns';
+import { resolveFusionOptions } from '@/utils/scoreFusion';
+
+export const maxDuration = 60;
+
+// POST { campaignId, fusion? } scores the content index against every ad of the campaign
+export async function POST(req: Request) {
+  try {
+    const { campaignId, fusion: requestedFusion } = await req.json() as {
+      campaignId?: string;
+      fusion?: FusionOptions;
+    };
+    const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+    const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+
+    if (!campaignId) {
+      return NextResponse.json({ error: 'campaignId is required' }, { status: 400 });
+    }
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const { fusion, error } = resolveFusionOptions(requestedFusion);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const campaign = (await getCampaigns()).find(item => item.id === campaignId);
+    if (!campaign) {
+      return NextResponse.json({ error: `Campaign ${campaignId} not found` }, { status: 404 });
+    }
+
+    const analysis = await analyzeCampaign(campaign, adsIndexId, contentIndexId, fusion);
+    console.log(`✅ Campaign "${campaign.name}" analyzed: ${analysis.results.length} content matches`);
+
+    return NextResponse.json(analysis);
+  } catch (error) {
+    console.error('❌ Error analyzing campaign:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
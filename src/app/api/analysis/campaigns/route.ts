@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { Campaign } from '@/types';
+import { appendCampaign, createCampaign, getCampaigns, removeCampaign } from '@/utils/campaigns';
+import { analysisStoreUnsupported } from '@/utils/runtime';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ campaigns: await getCampaigns() });
+  } catch (error) {
+    console.error('❌ Error reading campaigns:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read campaigns',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { name, adIds } adds a campaign
+export async function POST(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const input = await req.json() as Partial<Campaign>;
+
+    const { campaign, error } = createCampaign(input);
+    if (!campaign) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await appendCampaign(campaign);
+    console.log(`✅ Added campaign "${campaign.name}" with ${campaign.adIds.length} ads`);
+
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    console.error('❌ Error adding campaign:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to add campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE ?id=... removes a campaign
+export async function DELETE(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 });
+    }
+
+    if (!await removeCampaign(id)) {
+      return NextResponse.json({ error: `Campaign ${id} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error deleting campaign:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to delete campaign',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { fetchVideo } from '@/utils/twelveLabs';
+import { explainMatch } from '@/utils/matchExplanation';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+import { getLatestMatchMatrix } from '@/utils/matchMatrix';
+import { embedMetadataTerms, fetchClipVectorsByVideo, scorePair } from '@/utils/pairScoring';
+import { getVectorStore } from '@/utils/vectorStore';
+
+export const maxDuration = 60;
+
+// POST { adId, contentId } explains an ad/content match. Every score is computed here from the stored vectors
+// and metadata, so the breakdown agrees with the match matrix and its exports.
+export async function POST(req: Request) {
+  try {
+    const { adId, contentId } = await req.json() as {
+      adId?: string;
+      contentId?: string;
+    };
+    const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+    const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+
+    if (!adId || !contentId) {
+      return NextResponse.json({ error: 'adId and contentId are required' }, { status: 400 });
+    }
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const [adResponse, contentResponse] = await Promise.all([
+      fetchVideo(adsIndexId, adId),
+      fetchVideo(contentIndexId, contentId)
+    ]);
+    if (!adResponse.video) {
+      return NextResponse.json({ error: `Failed to fetch ad ${adId}`, details: adResponse.details }, { status: adResponse.status });
+    }
+    if (!contentResponse.video) {
+      return NextResponse.json(
+        { error: `Failed to fetch content video ${contentId}`, details: contentResponse.details },
+        { status: contentResponse.status }
+      );
+    }
+
+    const vectorStore = getVectorStore();
+    const [adTerms, adClips, contentClips, taxonomy, matrix] = await Promise.all([
+      embedMetadataTerms(adResponse.video),
+      fetchClipVectorsByVideo(vectorStore, adsIndexId, [adId]),
+      fetchClipVectorsByVideo(vectorStore, contentIndexId, [contentId]),
+      getTaxonomy(),
+      getLatestMatchMatrix()
+    ]);
+    const pair = scorePair(adTerms, adClips.get(adId) || [], contentClips.get(contentId) || []);
+    const cell = matrix?.status === 'completed' && matrix.adsIndexId === adsIndexId && matrix.contentIndexId === contentIndexId
+      ? matrix.cells.find(candidate => candidate.adId === adId && candidate.contentId === contentId)
+      : undefined;
+
+    return NextResponse.json(explainMatch(adResponse.video, contentResponse.video, taxonomy, pair, cell?.score));
+  } catch (error) {
+    console.error('❌ Error explaining match:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to explain match',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { AnalysisDirection, EmbeddingSearchResult, FusionOptions, FusionResponse, VideoData } from '@/types';
+import { fuseSearchResults, resolveFusionOptions } from '@/utils/scoreFusion';
+import { fetchVideo, listIndexVideosCached } from '@/utils/twelveLabs';
+import { tagScoresFor } from '@/utils/tagSimilarity';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+import { audienceFit } from '@/utils/audienceFit';
+import { extractVideoTags } from '@/utils/videoTags';
+
+// POST { textResults, videoResults, fusion?, videoId?, direction? } merges text and video search results with the chosen strategy.
+// With videoId (the ad for 'ad_to_content', the content video for 'content_to_ads') each result also gets a tagScore
+// and an audienceFit; requireAudienceOverlap then drops results whose audience does not overlap the ad's target.
+export async function POST(req: Request) {
+  try {
+    const {
+      textResults = [],
+      videoResults = [],
+      fusion: requestedFusion,
+      videoId,
+      direction = 'ad_to_content',
+      requireAudienceOverlap = false
+    } = await req.json() as {
+      textResults?: EmbeddingSearchResult[];
+      videoResults?: EmbeddingSearchResult[];
+      fusion?: FusionOptions;
+      videoId?: string;
+      direction?: AnalysisDirection;
+      requireAudienceOverlap?: boolean;
+    };
+
+    if (!Array.isArray(textResults) || !Array.isArray(videoResults)) {
+      return NextResponse.json(
+        { error: 'textResults and videoResults must be arrays' },
+        { status: 400 }
+      );
+    }
+
+    if (requireAudienceOverlap && !videoId) {
+      return NextResponse.json({ error: 'videoId is required for requireAudienceOverlap' }, { status: 400 });
+    }
+
+    const { fusion, error } = resolveFusionOptions(requestedFusion);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const isAdSource = direction === 'ad_to_content';
+    let sourceVideo: VideoData | null = null;
+    let resultVideos: VideoData[] = [];
+    if (videoId) {
+      const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+      const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+      if (!adsIndexId || !contentIndexId) {
+        return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+      }
+
+      const { video, status, details } = await fetchVideo(isAdSource ? adsIndexId : contentIndexId, videoId);
+      if (!video) {
+        return NextResponse.json({ error: `Failed to fetch video ${videoId}`, details }, { status });
+      }
+      sourceVideo = video;
+      // Results only carry vector metadata, so their tags come from the index
+      resultVideos = await listIndexVideosCached(isAdSource ? contentIndexId : adsIndexId);
+    }
+
+    let results = fuseSearchResults(
+      textResults,
+      videoResults,
+      fusion,
+      sourceVideo ? tagScoresFor(sourceVideo, resultVideos, await getTaxonomy()) : undefined
+    );
+
+    let audienceFiltered: number | undefined;
+    if (sourceVideo) {
+      const sourceTags = extractVideoTags(sourceVideo.user_metadata);
+      const tagsById = new Map(resultVideos.map(video => [video._id, extractVideoTags(video.user_metadata)]));
+      results = results.map(result => {
+        const tags = tagsById.get(result.metadata?.tl_video_id || '') || extractVideoTags(undefined);
+        return {
+          ...result,
+          audienceFit: isAdSource ? audienceFit(sourceTags, tags) : audienceFit(tags, sourceTags)
+        };
+      });
+
+      if (requireAudienceOverlap) {
+        const total = results.length;
+        results = results.filter(result => result.audienceFit!.overlaps);
+        audienceFiltered = total - results.length;
+      }
+    }
+
+    const response: FusionResponse = { fusion, results, audienceFiltered };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fusing search results:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fuse search results',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
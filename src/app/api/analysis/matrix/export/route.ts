@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getLatestMatchMatrix, matchMatrixToCsv } from '@/utils/matchMatrix';
+
+// GET ?format=csv|json downloads the latest match matrix
+export async function GET(req: Request) {
+  try {
+    const format = new URL(req.url).searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+    }
+
+    const matrix = await getLatestMatchMatrix();
+    if (!matrix) {
+      return NextResponse.json({ error: 'No match matrix has been computed yet' }, { status: 404 });
+    }
+    if (matrix.status === 'running') {
+      return NextResponse.json({ error: 'The match matrix is still being computed' }, { status: 409 });
+    }
+    if (matrix.status === 'failed') {
+      return NextResponse.json({ error: 'The latest match matrix failed or was interrupted; compute it again' }, { status: 409 });
+    }
+
+    const filename = `match-matrix-${matrix.startedAt.slice(0, 10)}.${format}`;
+    const body = format === 'csv' ? matchMatrixToCsv(matrix) : JSON.stringify(matrix, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error exporting match matrix:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export match matrix',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
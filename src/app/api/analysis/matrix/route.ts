@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { FusionOptions } from '@/types';
+import { resolveFusionOptions } from '@/utils/scoreFusion';
+import { getLatestMatchMatrix, isMatchMatrixRunning, startMatchMatrix } from '@/utils/matchMatrix';
+import { backgroundJobsUnsupported } from '@/utils/runtime';
+
+// The matrix is computed after the response, which needs a long-lived Node server
+export const runtime = 'nodejs';
+
+// GET returns the latest ads × content matrix, including progress while it is computed
+export async function GET() {
+  try {
+    const matrix = await getLatestMatchMatrix();
+    if (!matrix) {
+      return NextResponse.json({ error: 'No match matrix has been computed yet' }, { status: 404 });
+    }
+    return NextResponse.json(matrix);
+  } catch (error) {
+    console.error('❌ Error reading match matrix:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read match matrix',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { fusion? } scores every ad against every content video in the background
+export async function POST(req: Request) {
+  try {
+    const { fusion: requestedFusion } = await req.json().catch(() => ({})) as { fusion?: FusionOptions };
+    const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+    const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const { fusion, error } = resolveFusionOptions(requestedFusion);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const unsupported = backgroundJobsUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    if (isMatchMatrixRunning()) {
+      return NextResponse.json(
+        { error: 'A match matrix is already being computed', matrix: await getLatestMatchMatrix() },
+        { status: 409 }
+      );
+    }
+
+    const matrix = await startMatchMatrix(adsIndexId, contentIndexId, fusion);
+    console.log(`🔄 Started match matrix ${matrix.id}: ${matrix.ads.length} ads × ${matrix.contents.length} content videos`);
+
+    return NextResponse.json(matrix);
+  } catch (error) {
+    console.error('❌ Error starting match matrix:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start match matrix',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
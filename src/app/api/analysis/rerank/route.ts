@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { AnalysisDirection, EmbeddingSearchResult, RerankOptions, VideoData } from '@/types';
+import { listIndexVideosCached } from '@/utils/twelveLabs';
+import { getVectorStore } from '@/utils/vectorStore';
+import { fetchVideoVectors, rerankResults, resolveRerankOptions } from '@/utils/reranking';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+
+// POST { direction?, results, rerank? } applies the score cutoff, per-source caps and diversity re-ranking.
+// Results are content videos for 'ad_to_content' (the default) and ads for 'content_to_ads'.
+export async function POST(req: Request) {
+  try {
+    const { direction = 'ad_to_content', results, rerank: requestedRerank } = await req.json() as {
+      direction?: AnalysisDirection;
+      results?: EmbeddingSearchResult[];
+      rerank?: RerankOptions;
+    };
+    const indexId = direction === 'ad_to_content'
+      ? process.env.NEXT_PUBLIC_CONTENT_INDEX_ID
+      : process.env.NEXT_PUBLIC_ADS_INDEX_ID;
+
+    if (!Array.isArray(results)) {
+      return NextResponse.json({ error: 'results must be an array' }, { status: 400 });
+    }
+    if (!indexId) {
+      return NextResponse.json({ error: 'Ads and content index IDs are not configured' }, { status: 500 });
+    }
+
+    const { rerank, error } = resolveRerankOptions(requestedRerank);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // Tags, sources and vectors are only needed for diversity and caps
+    const usesDiversity = rerank.mmrLambda < 1;
+    let videos = new Map<string, VideoData>();
+    let vectors = new Map<string, number[]>();
+    if (usesDiversity || rerank.maxPerSource > 0) {
+      videos = new Map((await listIndexVideosCached(indexId)).map(video => [video._id, video]));
+    }
+    if (usesDiversity) {
+      const videoIds = results.map(result => result.metadata?.tl_video_id).filter((id): id is string => !!id);
+      vectors = await fetchVideoVectors(getVectorStore(), indexId, videoIds);
+    }
+
+    return NextResponse.json(rerankResults(results, rerank, videos, vectors, await getTaxonomy()));
+  } catch (error) {
+    console.error('❌ Error re-ranking results:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to re-rank results',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getAnalysisRun } from '@/utils/analysisRuns';
+
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await context.params;
+
+  try {
+    const run = await getAnalysisRun(runId);
+    if (!run) {
+      return NextResponse.json({ error: `Analysis run ${runId} not found` }, { status: 404 });
+    }
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error(`❌ Error reading analysis run ${runId}:`, error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read analysis run',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
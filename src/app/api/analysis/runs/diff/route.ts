@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { diffAnalysisRuns, getAnalysisRun } from '@/utils/analysisRuns';
+
+// GET ?from=<runId>&to=<runId> compares the rankings of two runs
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const fromId = searchParams.get('from');
+    const toId = searchParams.get('to');
+
+    if (!fromId || !toId) {
+      return NextResponse.json({ error: 'from and to run IDs are required' }, { status: 400 });
+    }
+
+    const [from, to] = await Promise.all([getAnalysisRun(fromId), getAnalysisRun(toId)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: `Analysis run ${!from ? fromId : toId} not found` }, { status: 404 });
+    }
+    if (from.videoId !== to.videoId || from.direction !== to.direction) {
+      return NextResponse.json({ error: 'Only runs for the same video and direction can be compared' }, { status: 400 });
+    }
+
+    return NextResponse.json(diffAnalysisRuns(from, to));
+  } catch (error) {
+    console.error('❌ Error comparing analysis runs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to compare analysis runs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { AnalysisRun } from '@/types';
+import { listAnalysisRuns, saveAnalysisRun } from '@/utils/analysisRuns';
+import { analysisStoreUnsupported } from '@/utils/runtime';
+
+// GET ?videoId=... lists stored analysis runs, newest first
+export async function GET(req: Request) {
+  try {
+    const videoId = new URL(req.url).searchParams.get('videoId') || undefined;
+    return NextResponse.json({ runs: await listAnalysisRuns(videoId) });
+  } catch (error) {
+    console.error('❌ Error listing analysis runs:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list analysis runs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST stores a finished analysis run
+export async function POST(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const {
+      videoId,
+      videoTitle,
+      direction = 'ad_to_content',
+      fusion = {},
+      requireAudienceOverlap,
+      rerank,
+      searchResults,
+      results,
+      excluded = []
+    } = await req.json() as Partial<AnalysisRun>;
+
+    if (!videoId || !Array.isArray(results) || !searchResults) {
+      return NextResponse.json({ error: 'videoId, searchResults and results are required' }, { status: 400 });
+    }
+
+    const run = await saveAnalysisRun({
+      videoId,
+      videoTitle,
+      direction,
+      fusion,
+      requireAudienceOverlap,
+      rerank,
+      searchResults,
+      results,
+      excluded
+    });
+    return NextResponse.json({ id: run.id, createdAt: run.createdAt });
+  } catch (error) {
+    console.error('❌ Error saving analysis run:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save analysis run',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { Taxonomy } from '@/types';
+import { resolveTaxonomy } from '@/utils/taxonomy';
+import { getTaxonomy, saveTaxonomy } from '@/utils/taxonomyStore';
+import { analysisStoreUnsupported } from '@/utils/runtime';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ taxonomy: await getTaxonomy() });
+  } catch (error) {
+    console.error('❌ Error reading taxonomy:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read taxonomy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT { categories } replaces the taxonomy used for tag generation, parsing and filters
+export async function PUT(req: Request) {
+  try {
+    const unsupported = analysisStoreUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const input = await req.json() as Partial<Taxonomy>;
+
+    const { taxonomy, error } = resolveTaxonomy(input);
+    if (!taxonomy) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const saved = await saveTaxonomy(taxonomy);
+    console.log(`✅ Saved taxonomy with ${saved.categories.length} categories`);
+
+    return NextResponse.json({ taxonomy: saved });
+  } catch (error) {
+    console.error('❌ Error saving taxonomy:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save taxonomy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { ContentToAdsResponse } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { fetchVideo } from '@/utils/twelveLabs';
+import { parseSearchTargets } from '@/utils/embeddingTargets';
+import { resolveVideoSearchAggregation, searchByVideo, searchByVideoMetadata } from '@/utils/embeddingSearch';
+
+export const maxDuration = 60;
+
+// POST { videoId, contentIndexId?, adsIndexId?, targets?, aggregation? } ranks ads for a content video.
+// Uses the same signals as ad → content analysis: tag and title text searches plus a video search.
+export async function POST(req: Request) {
+  try {
+    const {
+      videoId,
+      contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID,
+      adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID,
+      targets: requestedTargets,
+      aggregation: requestedAggregation
+    } = await req.json();
+    const vectorStore = getVectorStore();
+
+    if (!videoId || !contentIndexId || !adsIndexId) {
+      return NextResponse.json(
+        { error: 'videoId, contentIndexId and adsIndexId are required' },
+        { status: 400 }
+      );
+    }
+
+    const { targets, error: targetError } = parseSearchTargets(requestedTargets);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
+
+    const { aggregation, error: aggregationError } = resolveVideoSearchAggregation(requestedAggregation);
+    if (aggregationError) {
+      return NextResponse.json({ error: aggregationError }, { status: 400 });
+    }
+
+    const { video, status, details } = await fetchVideo(contentIndexId, videoId);
+    if (!video) {
+      return NextResponse.json(
+        { error: `Failed to fetch content video ${videoId}`, details },
+        { status }
+      );
+    }
+
+    const response: ContentToAdsResponse = {
+      text: await searchByVideoMetadata(vectorStore, video, adsIndexId, targets),
+      video: []
+    };
+
+    const outcome = await searchByVideo(vectorStore, {
+      videoId,
+      sourceIndexId: contentIndexId,
+      indexId: adsIndexId,
+      targets,
+      aggregation
+    });
+
+    // A stale or missing content embedding should not hide the text matches
+    if (outcome.success && outcome.response) {
+      response.video = outcome.response.results;
+      response.timings = outcome.response.timings;
+    } else {
+      console.warn(`⚠️ Video search for content video ${videoId} failed: ${outcome.error}`);
+      response.videoError = outcome.error;
+    }
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error in content to ads search:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to search ads for content video',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
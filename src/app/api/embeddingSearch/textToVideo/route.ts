@@ -1,71 +1,35 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
-import axios from 'axios';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
-
+import { getVectorStore } from '@/utils/vectorStore';
+import { parseSearchTargets } from '@/utils/embeddingTargets';
+import { searchByText, searchByVideoMetadata } from '@/utils/embeddingSearch';
+import { fetchVideo } from '@/utils/twelveLabs';
+
+// POST { searchTerm, indexId, targets? } searches an index with a text.
+// POST { videoId, sourceIndexId, indexId, targets? } searches it with the video's tag and title terms instead,
+// the same way content → ads analysis does.
 export async function POST(req: Request) {
   try {
-    const { searchTerm, indexId } = await req.json();
-    const index = getPineconeIndex();
-
-    const url = `${TWELVELABS_API_BASE_URL}/embed`;
-
-    const formData = new FormData();
-    formData.append('text', searchTerm);
-    formData.append('text_truncate', 'end');
-    formData.append('model_name', 'Marengo-retrieval-2.7');
-
-    const { data: embedData } = await axios.post(url, formData, {
-      headers: {
-        'accept': 'application/json',
-        'Content-Type': 'multipart/form-data',
-        'x-api-key': API_KEY,
-      },
-    });
+    const { searchTerm, videoId, sourceIndexId, indexId, targets: requestedTargets } = await req.json();
+    const vectorStore = getVectorStore();
 
-    // extract embedding vector from text_embedding object
-    const textEmbedding = embedData.text_embedding.segments[0].float;
-
-    if (!textEmbedding) {
-      throw new Error('Failed to generate embedding');
+    // Which modalities/scopes to search and how to weight them; defaults to visual-text clips
+    const { targets, error: targetError } = parseSearchTargets(requestedTargets);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
     }
 
-    // Get index and search
-    const searchResults = await index.query({
-      vector: textEmbedding,
-      filter: {
-        // video_type: 'ad',
-        tl_index_id: indexId,
-        scope: 'clip'
-      },
-      topK: 10,
-      includeMetadata: true,
-    });
-
-    interface SearchResult {
-      metadata?: Record<string, string | number | boolean | string[]>;
-      score: number; 
+    if (videoId) {
+      if (!sourceIndexId || !indexId) {
+        return NextResponse.json({ error: 'sourceIndexId and indexId are required with videoId' }, { status: 400 });
+      }
+      const { video, status, details } = await fetchVideo(sourceIndexId, videoId);
+      if (!video) {
+        return NextResponse.json({ error: `Failed to fetch video ${videoId}`, details }, { status });
+      }
+      return NextResponse.json(await searchByVideoMetadata(vectorStore, video, indexId, targets));
     }
 
-    const uniqueResults = Object.values(
-      searchResults.matches.reduce((acc: Record<string, SearchResult>, current) => {
-        const videoId = current.metadata?.tl_video_id as string;
-        if (!videoId) return acc;
-
-        if (!acc[videoId] || acc[videoId].score < (current.score || 0)) {
-          acc[videoId] = {
-            metadata: current.metadata,
-            score: current.score || 0
-          };
-        }
-        return acc;
-      }, {})
-    );
-
-    // Sort by score
-    const sortedResults = uniqueResults.sort((a, b) => b.score - a.score);
+    const sortedResults = await searchByText(vectorStore, searchTerm, indexId, targets);
 
     return NextResponse.json(sortedResults);
 
@@ -76,4 +40,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,85 +1,59 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore } from '@/utils/vectorStore';
+import { parseSearchTargets } from '@/utils/embeddingTargets';
+import { resolveVideoSearchAggregation, searchByVideo } from '@/utils/embeddingSearch';
 
-type QueryMatch = {
-  id: string;
-  score?: number;
-  metadata?: {
-    tl_video_id?: string;
-    tl_index_id?: string;
-    scope?: string;
-    [key: string]: unknown;
-  };
-  values?: number[];
-  resultType?: string;
-};
+export const maxDuration = 60;
 
 export async function POST(req: Request) {
   try {
-    const { videoId, indexId } = await req.json();
-    const index = getPineconeIndex();
+    const {
+      videoId,
+      indexId,
+      sourceIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID,
+      targets: requestedTargets,
+      aggregation: requestedAggregation,
+      concurrency,
+      timeBudgetMs
+    } = await req.json();
+    const vectorStore = getVectorStore();
 
-    // First, get the original video's clip embedding
-    const originalClipQuery = await index.query({
-      filter: {
-        tl_video_id: videoId,
-        scope: 'clip'
-      },
-      topK: 100,
-      includeMetadata: true,
-      includeValues: true,
-      vector: new Array(1024).fill(0)
-    });
-
-    // If we found matching clips, search for similar ads for each match
-    const similarResults = [];
-    if (originalClipQuery.matches.length > 0) {
-      for (const originalClip of originalClipQuery.matches) {
-        const vectorValues = originalClip.values || new Array(1024).fill(0);
-        const queryResult = await index.query({
-          vector: vectorValues,
-          filter: {
-            tl_index_id: indexId,
-            scope: 'clip'
-          },
-          topK: 5,
-          includeMetadata: true,
-        });
-        similarResults.push(queryResult);
-      }
+    if (!videoId || !indexId || !sourceIndexId) {
+      return NextResponse.json(
+        { error: 'videoId, indexId and sourceIndexId are required' },
+        { status: 400 }
+      );
     }
 
-    // Merge and organize results - combine all matches from all results
-    let allResults: QueryMatch[] = [];
+    // Which modalities/scopes to search and how to weight them; defaults to visual-text clips
+    const { targets, error: targetError } = parseSearchTargets(requestedTargets);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
 
-    // Process each result in the similarResults array
-    for (const result of similarResults) {
-      if (result && 'matches' in result && Array.isArray(result.matches)) {
-        const formattedMatches = result.matches.map(match => ({
-          ...match,
-          resultType: 'clip'
-        }));
-        allResults = [...allResults, ...formattedMatches];
-      }
+    const { aggregation, error: aggregationError } = resolveVideoSearchAggregation(requestedAggregation);
+    if (aggregationError) {
+      return NextResponse.json({ error: aggregationError }, { status: 400 });
     }
 
-    // Remove duplicates (keep only the highest score for each tlVideoId)
-    const uniqueResults = Object.values(
-      allResults.reduce((acc: Record<string, typeof current>, current) => {
-        const tlVideoId = current.metadata?.tl_video_id as string;
-        if (!tlVideoId) return acc;
+    const outcome = await searchByVideo(vectorStore, {
+      videoId,
+      sourceIndexId,
+      indexId,
+      targets,
+      aggregation,
+      concurrency,
+      timeBudgetMs
+    });
 
-        if (!acc[tlVideoId] || (acc[tlVideoId].score ?? 0) < (current.score ?? 0)) {
-          acc[tlVideoId] = current;
-        }
-        return acc;
-      }, {})
-    );
-    
-    // Sort by score
-    const sortedResults = uniqueResults.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    if (!outcome.success) {
+      return NextResponse.json(
+        { error: outcome.error, details: outcome.details },
+        { status: outcome.status }
+      );
+    }
 
-    return NextResponse.json(sortedResults);
+    return NextResponse.json(outcome.response);
 
   } catch (error) {
     console.error('Error in embedding search:', error);
@@ -88,4 +62,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
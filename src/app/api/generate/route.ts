@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server';
+import { buildTaggingPrompt } from '@/utils/taxonomy';
+import { getTaxonomy } from '@/utils/taxonomyStore';
 
 const API_KEY = process.env.TWELVELABS_API_KEY;
 const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
@@ -8,49 +10,6 @@ export const maxDuration = 60;
 export async function GET(req: Request) {
     const { searchParams } = new URL(req.url);
     const videoId = searchParams.get("videoId");
-    const prompt =
-    `You are a marketing assistant specialized in generating hashtags for video content.
-
-Based on the input video metadata, generate a list of hashtags labeled by category.
-
-**Output Format:**
-Each line must be in the format:
-[Category]: [Hashtag]
-(e.g., sector: #beauty)
-
-
-**Allowed Values:**
-
-Gender: Male, Female
-Age: 18-25, 25-34, 35-44, 45-54, 55+
-Topic: Beauty, Fashion, Tech, Travel, CPG, Food & Bev, Retail, Other
-Emotions: sorrow, happiness, laughter, anger, empathy, fear, love, trust, sadness, belonging, guilt, compassion, pride
-
-**Instructions:**
-
-1. Use only the values provided in Allowed Values.
-2. Do not invent new values except for Brands and Location. Only use values from the Allowed Values.
-3. Output must contain at least one hashtag for each of the following categories:
-  - Gender
-  - Age
-  - Topic
-  - Emotions
-  - Location
-  - Brands
-
-4. Do not output any explanations or category names—only return the final hashtag list.
-
-**Output Example:**
-
-Gender: female
-Age: 25-34
-Topic: beauty
-Emotions: happiness
-Location: Los Angeles
-Brands: Fenty Beauty
-
----
-`
 
     if (!videoId) {
       return NextResponse.json(
@@ -68,20 +27,23 @@ Brands: Fenty Beauty
     }
 
     const url = `${TWELVELABS_API_BASE_URL}/generate`;
-    const options = {
+
+    try {
+      // The allowed values come from the editable taxonomy
+      const prompt = buildTaggingPrompt(await getTaxonomy());
+      const options = {
         method: "POST",
         headers: {
-            "Content-Type": "application/json",
-            "x-api-key": API_KEY,
+          "Content-Type": "application/json",
+          "x-api-key": API_KEY,
         },
         body: JSON.stringify({
-            prompt: prompt,
-            video_id: videoId,
-            stream: false
+          prompt: prompt,
+          video_id: videoId,
+          stream: false
         })
-    };
+      };
 
-    try {
       const response = await fetch(url, options);
 
       if (!response.ok) {
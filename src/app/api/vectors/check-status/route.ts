@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
 
 export async function GET(req: Request) {
   try {
@@ -19,42 +20,29 @@ export async function GET(req: Request) {
     const isAdsIndex = indexId.toLowerCase().includes('ad');
     const category = isAdsIndex ? 'ad' : 'content';
 
-    // Get Pinecone index
-    const pineconeIndex = getPineconeIndex();
+    // Get vector store
+    const vectorStore = getVectorStore();
 
-    if (!pineconeIndex) {
-      console.error('🔍 CHECK-STATUS - Failed to get Pinecone index');
+    if (!vectorStore) {
+      console.error('🔍 CHECK-STATUS - Failed to get vector store');
       return NextResponse.json(
-        { processed: false, error: 'Failed to get Pinecone index', category },
+        { processed: false, error: 'Failed to get vector store', category },
         { status: 500 }
       );
     }
 
     try {
-      // Use a zero vector with correct dimensions (1024) - only using filter to find vectors
-      const queryResponse = await pineconeIndex.query({
-        vector: Array(1024).fill(0), // Zero vector with 1024 dimensions to match the index dimension
-        filter: { tl_video_id: videoId },
-        topK: 1,
-        includeMetadata: true
-      });
-
-      const matchCount = queryResponse.matches?.length || 0;
-      const processed = Boolean(matchCount);
+      // Read the per-video manifest from the vector ID prefix
+      const manifest = await getVideoVectorManifest(vectorStore, indexId, videoId);
 
       return NextResponse.json({
-        processed,
-        source: 'pinecone',
+        processed: manifest.exists,
+        source: vectorStore.backend,
         category,
         videoId,
         indexId,
-        matches_count: matchCount,
-        debug_info: {
-          query_time: new Date().toISOString(),
-          has_matches: processed,
-          first_match_id: queryResponse.matches?.[0]?.id,
-          first_match_metadata: queryResponse.matches?.[0]?.metadata
-        }
+        matches_count: manifest.segmentCount,
+        manifest
       });
     } catch (error) {
       console.error(`🔍 CHECK-STATUS - Error checking if video ${videoId} is processed:`, error);
@@ -1,32 +1,30 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const videoId = searchParams.get('video_id');
+  const indexId = searchParams.get('index_id');
 
-  if (!videoId) {
+  if (!videoId || !indexId) {
     return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 });
   }
 
   try {
-    const index = getPineconeIndex();
+    const vectorStore = getVectorStore();
 
-    // Fetch vectors using metadata filter instead of direct ID
-    const queryResponse = await index.query({
-      vector: new Array(1024).fill(0),
-      filter: {
-        tl_video_id: videoId
-      },
-      topK: 1,
-      includeMetadata: true
-    });
+    // Look up the video's vectors by ID prefix instead of a similarity query
+    const manifest = await getVideoVectorManifest(vectorStore, indexId, videoId);
 
     return NextResponse.json({
-      exists: queryResponse.matches.length > 0
+      exists: manifest.exists,
+      segmentCount: manifest.segmentCount,
+      scopes: manifest.scopes,
+      model: manifest.model
     });
   } catch (error) {
     console.error('Error fetching vector:', error);
     return NextResponse.json({ error: 'Failed to fetch vector' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { ingestVideoEmbeddings } from '@/utils/embeddingIngest';
+
+export const maxDuration = 60;
+
+// Embeddings are fetched from TwelveLabs on the server, so clients never send vector values
+export async function POST(request: Request) {
+  try {
+    let requestBody: { indexId?: string; videoId?: string };
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.error(`❌ Failed to parse request body:`, parseError);
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      );
+    }
+
+    const { indexId, videoId } = requestBody;
+
+    if (!indexId || !videoId) {
+      return NextResponse.json(
+        { error: 'indexId and videoId are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await ingestVideoEmbeddings(indexId, videoId);
+
+    // TwelveLabs status is passed through so callers can retry videos that are still processing
+    if (!result.success) {
+      console.error(`❌ Failed to ingest embeddings for video ${videoId}: ${result.error}`, result.details);
+      return NextResponse.json(
+        { error: result.error, details: result.details, batches: result.upsert?.batches },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      videoId,
+      indexId,
+      stored: result.stored,
+      model: result.model,
+      batches: result.upsert?.batches,
+      message: `Successfully stored ${result.stored} vectors for video ${videoId}`
+    });
+  } catch (error) {
+    console.error('❌ Error ingesting embeddings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to ingest embeddings',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getVectorJob } from '@/utils/vectorJobs';
+
+// Jobs live in the memory of the Node server that started them
+export const runtime = 'nodejs';
+
+// GET ?jobId=... returns the progress of a background re-embed or reconcile job
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const jobId = searchParams.get('jobId');
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'jobId is required' }, { status: 400 });
+  }
+
+  const job = getVectorJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: `Vector job ${jobId} not found` }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const videoId = searchParams.get('videoId');
+  const indexId = searchParams.get('indexId');
+
+  if (!videoId || !indexId) {
+    return NextResponse.json(
+      { error: 'videoId and indexId are required parameters' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const manifest = await getVideoVectorManifest(getVectorStore(), indexId, videoId);
+    return NextResponse.json(manifest);
+  } catch (error) {
+    console.error(`Error reading vector manifest for video ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to read vector manifest' },
+      { status: 500 }
+    );
+  }
+}
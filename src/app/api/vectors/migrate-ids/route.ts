@@ -0,0 +1,166 @@
+import { NextResponse } from 'next/server';
+import { VectorRecord } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { buildVectorId, isStableVectorId } from '@/utils/vectorIds';
+import { upsertInBatches } from '@/utils/vectorUpsert';
+import { issueConfirmationToken, verifyConfirmationToken } from '@/utils/confirmationToken';
+
+export const maxDuration = 60;
+
+const BATCH_SIZE = 100;
+const MIGRATION_REQUEST_KEY = 'migrate-ids';
+
+// Legacy IDs look like `<sanitized_title>_segment<N>`
+const getLegacyIdBase = (id: string) => id.replace(/_segment\d+$/, '');
+
+export async function POST(req: Request) {
+  try {
+    let body: { dryRun?: boolean; confirmationToken?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // An empty or invalid body falls back to a dry run
+    }
+    // Only an explicit dryRun=false rewrites IDs, and it needs the token from a dry run
+    const dryRun = body?.dryRun !== false;
+
+    if (!dryRun && !verifyConfirmationToken(body.confirmationToken, MIGRATION_REQUEST_KEY)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A valid confirmationToken is required. Run the migration with dryRun=true first.'
+        },
+        { status: 403 }
+      );
+    }
+
+    const vectorStore = getVectorStore();
+    const allIds = await vectorStore.listIds();
+    const existingIds = new Set(allIds);
+    const legacyIds = allIds.filter(id => !isStableVectorId(id));
+
+    const migrations: Array<{ from: string; to: string; record: VectorRecord }> = [];
+    const plannedTargets = new Map<string, string>();
+    const duplicateTargets: Array<{ targetId: string; legacyIds: string[] }> = [];
+    const alreadyMigrated: string[] = [];
+    const unmigratable: Array<{ id: string; reason: string }> = [];
+    const videosByLegacyBase = new Map<string, Set<string>>();
+
+    for (let i = 0; i < legacyIds.length; i += BATCH_SIZE) {
+      const batchIds = legacyIds.slice(i, i + BATCH_SIZE);
+      const records = await vectorStore.fetch(batchIds);
+
+      for (const id of batchIds) {
+        const record = records[id];
+        const metadata = record?.metadata;
+
+        if (!record) {
+          unmigratable.push({ id, reason: 'Vector listed but could not be fetched' });
+          continue;
+        }
+
+        const videoId = metadata?.tl_video_id;
+        const indexId = metadata?.tl_index_id;
+        if (!videoId || !indexId) {
+          unmigratable.push({ id, reason: 'Missing tl_video_id or tl_index_id metadata' });
+          continue;
+        }
+
+        // Track which videos wrote into each title-based ID family
+        const legacyBase = getLegacyIdBase(id);
+        if (!videosByLegacyBase.has(legacyBase)) {
+          videosByLegacyBase.set(legacyBase, new Set());
+        }
+        videosByLegacyBase.get(legacyBase)!.add(String(videoId));
+
+        const targetId = buildVectorId({
+          indexId: String(indexId),
+          videoId: String(videoId),
+          scope: String(metadata?.scope || 'clip'),
+          startOffset: Number(metadata?.start_time ?? 0),
+          embeddingOption: metadata?.embedding_option ? String(metadata.embedding_option) : undefined
+        });
+
+        if (existingIds.has(targetId)) {
+          alreadyMigrated.push(id);
+          continue;
+        }
+
+        const previous = plannedTargets.get(targetId);
+        if (previous) {
+          const duplicate = duplicateTargets.find(item => item.targetId === targetId);
+          if (duplicate) {
+            duplicate.legacyIds.push(id);
+          } else {
+            duplicateTargets.push({ targetId, legacyIds: [previous, id] });
+          }
+          continue;
+        }
+
+        plannedTargets.set(targetId, id);
+        migrations.push({ from: id, to: targetId, record: { ...record, id: targetId } });
+      }
+    }
+
+    // Several videos sharing one title base means their vectors overwrote each other
+    const titleCollisions = Array.from(videosByLegacyBase.entries())
+      .filter(([, videoIds]) => videoIds.size > 1)
+      .map(([legacyIdBase, videoIds]) => ({ legacyIdBase, videoIds: Array.from(videoIds) }));
+
+    if (!dryRun) {
+      const upsert = await upsertInBatches(vectorStore, migrations.map(item => item.record));
+      if (upsert.failed > 0) {
+        // Legacy vectors are untouched, so the migration can simply be run again
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Failed to write migrated vectors',
+            details: `${upsert.failed} vectors failed${upsert.rolledBack ? '; written batches were rolled back' : ''}`,
+            batches: upsert.batches
+          },
+          { status: 503 }
+        );
+      }
+
+      // Only remove legacy vectors once their replacements are written
+      const idsToDelete = [
+        ...migrations.map(item => item.from),
+        ...alreadyMigrated,
+        ...duplicateTargets.flatMap(item => item.legacyIds.slice(1))
+      ];
+      await vectorStore.deleteIds(idsToDelete);
+    }
+
+    const confirmation = dryRun ? issueConfirmationToken(MIGRATION_REQUEST_KEY) : null;
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      ...(confirmation && {
+        confirmationToken: confirmation.token,
+        confirmationExpiresAt: new Date(confirmation.expiresAt).toISOString()
+      }),
+      scanned: allIds.length,
+      legacyCount: legacyIds.length,
+      migrated: migrations.length,
+      alreadyMigrated: alreadyMigrated.length,
+      collisions: {
+        titleCollisions,
+        duplicateTargets
+      },
+      unmigratable,
+      // Videos involved in a title collision lost vectors and should be re-ingested
+      videosToReingest: Array.from(new Set(titleCollisions.flatMap(item => item.videoIds)))
+    });
+  } catch (error) {
+    console.error('❌ Error migrating vector IDs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to migrate vector IDs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { ReconcileIndexReport, ReconcileResponse, VectorJob } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getCurrentEmbeddingModel, listIndexVideos } from '@/utils/twelveLabs';
+import { getEmbeddingStatus, getIndexVectorManifests } from '@/utils/vectorManifest';
+import { replaceVideoEmbeddings } from '@/utils/embeddingIngest';
+import { getRunningVectorJob, startVectorJob } from '@/utils/vectorJobs';
+import { backgroundJobsUnsupported } from '@/utils/runtime';
+
+export const maxDuration = 60;
+// Repairs ingest in a job that runs after the response, which needs a long-lived Node server
+export const runtime = 'nodejs';
+
+interface ReconcileRequest {
+  dryRun?: boolean;
+  deleteOrphans?: boolean;
+  ingestMissing?: boolean;
+}
+
+// Compare one TwelveLabs index with the vectors stored under its ID prefix
+const reconcileIndex = async (indexId: string, currentModel: string) => {
+  const vectorStore = getVectorStore();
+  const videos = await listIndexVideos(indexId);
+  const videoIds = new Set(videos.map(video => video._id));
+
+  // Without a videoIds filter this covers every video that has vectors, including deleted ones
+  const manifests = await getIndexVectorManifests(vectorStore, indexId);
+
+  const report: ReconcileIndexReport = {
+    indexId,
+    videoCount: videoIds.size,
+    orphans: [],
+    missing: [],
+    partial: [],
+    staleModel: [],
+    complete: 0
+  };
+  const orphanVectorIds: string[] = [];
+
+  Object.values(manifests)
+    .filter(manifest => !videoIds.has(manifest.videoId))
+    .forEach(manifest => {
+      report.orphans.push({ videoId: manifest.videoId, vectorCount: manifest.vectorIds.length });
+      orphanVectorIds.push(...manifest.vectorIds);
+    });
+
+  videoIds.forEach(videoId => {
+    const manifest = manifests[videoId];
+    const state = manifest ? getEmbeddingStatus(manifest, currentModel).state : 'missing';
+
+    if (state === 'missing') report.missing.push(videoId);
+    else if (state === 'partial') report.partial.push(videoId);
+    else if (state === 'stale_model') report.staleModel.push(videoId);
+    else report.complete++;
+  });
+
+  return { report, orphanVectorIds };
+};
+
+// POST { dryRun?, deleteOrphans?, ingestMissing? } diffs both TwelveLabs indexes against the vector store.
+// Stale-model videos are reported only; use /api/vectors/reembed to fix them.
+export async function POST(req: Request) {
+  try {
+    let body: ReconcileRequest = {};
+    try {
+      body = await req.json();
+    } catch {
+      // An empty body only reports
+    }
+    const { deleteOrphans = false, ingestMissing = false } = body;
+    const dryRun = body.dryRun !== false;
+
+    const indexIds = [process.env.NEXT_PUBLIC_ADS_INDEX_ID, process.env.NEXT_PUBLIC_CONTENT_INDEX_ID]
+      .filter((indexId): indexId is string => !!indexId);
+
+    if (indexIds.length === 0) {
+      return NextResponse.json(
+        { error: 'NEXT_PUBLIC_ADS_INDEX_ID or NEXT_PUBLIC_CONTENT_INDEX_ID must be configured' },
+        { status: 500 }
+      );
+    }
+
+    const currentModel = getCurrentEmbeddingModel();
+    const results = [];
+    for (const indexId of indexIds) {
+      results.push(await reconcileIndex(indexId, currentModel));
+    }
+
+    const response: ReconcileResponse = {
+      success: true,
+      dryRun,
+      currentModel,
+      indexes: results.map(result => result.report)
+    };
+
+    if (dryRun) {
+      return NextResponse.json(response);
+    }
+
+    const unsupported = ingestMissing ? backgroundJobsUnsupported() : null;
+    if (unsupported) {
+      return NextResponse.json({ ...response, success: false, error: unsupported }, { status: 501 });
+    }
+
+    const runningJob = getRunningVectorJob();
+    if (runningJob) {
+      return NextResponse.json(
+        { ...response, success: false, error: `A ${runningJob.kind} job is already running` },
+        { status: 409 }
+      );
+    }
+
+    if (deleteOrphans) {
+      const orphanVectorIds = results.flatMap(result => result.orphanVectorIds);
+      await getVectorStore().deleteIds(orphanVectorIds);
+      response.deletedOrphanVectors = orphanVectorIds.length;
+    }
+
+    let job: VectorJob | null = null;
+    if (ingestMissing) {
+      const videosToIngest = response.indexes.flatMap(report =>
+        [...report.missing, ...report.partial].map(videoId => ({ indexId: report.indexId, videoId }))
+      );
+
+      job = startVectorJob('reconcile', videosToIngest, async ({ indexId, videoId }) => {
+        const result = await replaceVideoEmbeddings(indexId, videoId);
+        if (!result.success) {
+          throw new Error(result.error || 'Ingest failed');
+        }
+      });
+    }
+    response.job = job;
+
+    return NextResponse.json(response, { status: job ? 202 : 200 });
+  } catch (error) {
+    console.error('❌ Error reconciling vectors:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile vectors',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { StaleVectorsResponse, VectorFilter } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getCurrentEmbeddingModel } from '@/utils/twelveLabs';
+import { replaceVideoEmbeddings } from '@/utils/embeddingIngest';
+import { staleModelFilter } from '@/utils/vectorFilter';
+import { parseVectorId } from '@/utils/vectorIds';
+import { getRunningVectorJob, startVectorJob } from '@/utils/vectorJobs';
+import { backgroundJobsUnsupported } from '@/utils/runtime';
+
+export const maxDuration = 60;
+// The re-embed job runs after the response, which needs a long-lived Node server
+export const runtime = 'nodejs';
+
+const findStaleVectors = async (indexId?: string): Promise<StaleVectorsResponse> => {
+  const currentModel = getCurrentEmbeddingModel();
+  const filter: VectorFilter = staleModelFilter(currentModel);
+  if (indexId) filter.tl_index_id = indexId;
+
+  const staleIds = await getVectorStore().findIds(filter);
+  const videos = new Map<string, { indexId: string; videoId: string; vectorCount: number }>();
+  const unmappedIds: string[] = [];
+
+  for (const id of staleIds) {
+    const parts = parseVectorId(id);
+    if (!parts) {
+      unmappedIds.push(id);
+      continue;
+    }
+
+    const key = `${parts.indexId}/${parts.videoId}`;
+    const entry = videos.get(key) || { indexId: parts.indexId, videoId: parts.videoId, vectorCount: 0 };
+    entry.vectorCount++;
+    videos.set(key, entry);
+  }
+
+  return {
+    currentModel,
+    staleVectorCount: staleIds.length,
+    videos: Array.from(videos.values()),
+    unmappedIds
+  };
+};
+
+// POST { indexId?, dryRun? } lists stale-model vectors or starts re-embedding them in the background
+export async function POST(req: Request) {
+  try {
+    let body: { indexId?: string; dryRun?: boolean } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // An empty body targets every index
+    }
+
+    const stale = await findStaleVectors(body.indexId);
+
+    if (body.dryRun) {
+      return NextResponse.json({ success: true, dryRun: true, ...stale });
+    }
+
+    const unsupported = backgroundJobsUnsupported();
+    if (unsupported) {
+      return NextResponse.json({ error: unsupported }, { status: 501 });
+    }
+
+    const runningJob = getRunningVectorJob();
+    if (runningJob) {
+      return NextResponse.json(
+        { error: `A ${runningJob.kind} job is already running`, job: runningJob },
+        { status: 409 }
+      );
+    }
+
+    const job = startVectorJob('reembed', stale.videos, async ({ indexId, videoId }) => {
+      const result = await replaceVideoEmbeddings(indexId, videoId);
+      if (!result.success) {
+        throw new Error(result.error || 'Ingest failed');
+      }
+      if (result.model !== stale.currentModel) {
+        throw new Error(`TwelveLabs returned ${result.model}; the index must be re-indexed with ${stale.currentModel}`);
+      }
+    });
+
+    return NextResponse.json({ success: true, job, unmappedIds: stale.unmappedIds }, { status: 202 });
+  } catch (error) {
+    console.error('❌ Error starting re-embed job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start re-embed job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,94 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { VectorFilter } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getVideoVectorIdPrefix } from '@/utils/vectorIds';
+import { issueConfirmationToken, verifyConfirmationToken } from '@/utils/confirmationToken';
+
+export const maxDuration = 60;
+
+interface ResetScope {
+  indexId?: string;
+  category?: 'ad' | 'content';
+  // null targets vectors stored before the model was recorded
+  embeddingModel?: string | null;
+}
+
+interface ResetRequest {
+  videoId?: string;
+  indexId?: string;
+  resetAll?: boolean;
+  scope?: ResetScope;
+  dryRun?: boolean;
+  confirmationToken?: string;
+}
+
+const buildScopeFilter = (scope: ResetScope): VectorFilter => {
+  const filter: VectorFilter = {};
+  if (scope.indexId) filter.tl_index_id = scope.indexId;
+  if (scope.category) filter.category = scope.category;
+  if (scope.embeddingModel === null) {
+    filter.embedding_model = { $exists: false };
+  } else if (scope.embeddingModel) {
+    filter.embedding_model = scope.embeddingModel;
+  }
+  return filter;
+};
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const { videoId, indexId, resetAll = false } = body;
+    const body: ResetRequest = await req.json();
+    const { videoId, indexId, resetAll = false, scope, dryRun = false, confirmationToken } = body;
+
+    const hasScope = !!scope && (
+      !!scope.indexId || !!scope.category || scope.embeddingModel !== undefined
+    );
 
-    // If resetAll is true, it will ignore individual video resets
-    if (!resetAll && (!videoId || !indexId)) {
+    // If resetAll is true, it will ignore scoped and individual video resets
+    if (!resetAll && !hasScope && (!videoId || !indexId)) {
       return NextResponse.json(
-        { success: false, error: 'Either resetAll=true OR both videoId and indexId are required' },
+        { success: false, error: 'Provide resetAll=true, a scope, OR both videoId and indexId' },
         { status: 400 }
       );
     }
 
-    // Get Pinecone index
-    const pineconeIndex = getPineconeIndex();
-    if (!pineconeIndex) {
+    if (scope?.category && scope.category !== 'ad' && scope.category !== 'content') {
       return NextResponse.json(
-        { success: false, error: 'Failed to initialize Pinecone index' },
+        { success: false, error: "scope.category must be 'ad' or 'content'" },
+        { status: 400 }
+      );
+    }
+
+    // Get vector store
+    const vectorStore = getVectorStore();
+    if (!vectorStore) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to initialize vector store' },
         { status: 500 }
       );
     }
 
     // If reset specific video
-    if (!resetAll && videoId && indexId) {
+    if (!resetAll && !hasScope && videoId && indexId) {
 
       try {
-        // Create a filter for the delete operation
-        const filter = { tl_video_id: videoId };
+        // The video's vectors share an ID prefix scoped to its index, so list and delete them by ID
+        const matchedIds = await vectorStore.listIds(getVideoVectorIdPrefix(indexId, videoId));
 
-        // Actually delete vectors matching this filter
-        const deleteResult = await pineconeIndex.deleteMany({ filter });
+        if (dryRun) {
+          return NextResponse.json({
+            success: true,
+            dryRun: true,
+            count: matchedIds.length,
+            message: `${matchedIds.length} vectors would be removed for video ${videoId} in index ${indexId}`
+          });
+        }
+
+        await vectorStore.deleteIds(matchedIds);
 
         return NextResponse.json({
           success: true,
-          message: `Reset vectors for video ${videoId}`,
-          result: deleteResult
+          deleted: matchedIds.length,
+          message: `Reset ${matchedIds.length} vectors for video ${videoId} in index ${indexId}`
         });
       } catch (error) {
         console.error(`Error resetting vectors for video ${videoId}:`, error);
@@ -47,11 +99,60 @@ export async function POST(req: Request) {
       }
     }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Reset functionality acknowledged. Check server logs for details.',
-      warning: 'This is a test environment - vectors not physically deleted from Pinecone'
-    });
+    // Bulk reset: either everything or a metadata scope
+    const filter = resetAll ? null : buildScopeFilter(scope!);
+    const requestKey = JSON.stringify({ resetAll, filter });
+    const description = resetAll ? 'all vectors' : `vectors matching ${JSON.stringify(filter)}`;
+
+    try {
+      if (dryRun) {
+        const count = resetAll
+          ? (await vectorStore.describeStats()).totalRecordCount
+          : (await vectorStore.findIds(filter!)).length;
+        const { token, expiresAt } = issueConfirmationToken(requestKey);
+
+        return NextResponse.json({
+          success: true,
+          dryRun: true,
+          count,
+          message: `${count} vectors would be removed (${description})`,
+          confirmationToken: token,
+          confirmationExpiresAt: new Date(expiresAt).toISOString()
+        });
+      }
+
+      if (!verifyConfirmationToken(confirmationToken, requestKey)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'A valid confirmationToken is required. Run the same request with dryRun=true first.'
+          },
+          { status: 403 }
+        );
+      }
+
+      let deleted: number;
+      if (resetAll) {
+        deleted = (await vectorStore.describeStats()).totalRecordCount;
+        await vectorStore.deleteAll();
+      } else {
+        const matchedIds = await vectorStore.findIds(filter!);
+        await vectorStore.deleteIds(matchedIds);
+        deleted = matchedIds.length;
+      }
+
+      return NextResponse.json({
+        success: true,
+        deleted,
+        message: `Removed ${deleted} vectors (${description})`
+      });
+    } catch (error) {
+      console.error(`Error resetting ${description}:`, error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to reset vectors' },
+        { status: 500 }
+      );
+    }
 
   } catch (error) {
     console.error('Error processing reset request:', error);
@@ -60,4 +161,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -59,7 +59,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Embeddings don't exist, request them with the embedding_option parameter
-    const embeddingUrl = `${TWELVELABS_API_BASE_URL}/indexes/${index_id}/videos/${video_id}?embedding_option=visual-text`;
+    const embeddingUrl = `${TWELVELABS_API_BASE_URL}/indexes/${index_id}/videos/${video_id}?embedding_option=visual-text&embedding_option=audio`;
 
     const embeddingResponse = await fetch(embeddingUrl, options);
 
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { EmbeddingState, EmbeddingStatusResponse, VideoEmbeddingStatus } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getIndexVectorManifests, getEmbeddingStatus } from '@/utils/vectorManifest';
+import { getCurrentEmbeddingModel, listIndexVideos } from '@/utils/twelveLabs';
+
+export const maxDuration = 60;
+
+// Per-video embedding state for a whole index (or a subset of its videos) in one call
+export async function POST(req: Request) {
+  try {
+    const { indexId, videoIds } = await req.json() as { indexId?: string; videoIds?: string[] };
+
+    if (!indexId) {
+      return NextResponse.json(
+        { error: 'indexId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (videoIds !== undefined && !Array.isArray(videoIds)) {
+      return NextResponse.json(
+        { error: 'videoIds must be an array of video IDs' },
+        { status: 400 }
+      );
+    }
+
+    // Without an explicit list, every video in the Twelve Labs index is checked
+    const targetVideoIds = videoIds || (await listIndexVideos(indexId)).map(video => video._id);
+
+    const manifests = await getIndexVectorManifests(getVectorStore(), indexId, targetVideoIds);
+    const currentModel = getCurrentEmbeddingModel();
+
+    const statuses: Record<string, VideoEmbeddingStatus> = {};
+    const summary: Record<EmbeddingState, number> = { missing: 0, partial: 0, complete: 0, stale_model: 0 };
+
+    targetVideoIds.forEach(videoId => {
+      const status = getEmbeddingStatus(manifests[videoId], currentModel);
+      statuses[videoId] = status;
+      summary[status.state] += 1;
+    });
+
+    const response: EmbeddingStatusResponse = { indexId, currentModel, statuses, summary };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error checking embedding status:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check embedding status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,57 +1,46 @@
 import { NextResponse } from 'next/server';
-import { getPineconeClient, getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore, checkVectorStoreEnvironment } from '@/utils/vectorStore';
 
 export async function GET() {
   try {
 
-    // Check environment variables
-    const pineconeApiKey = process.env.PINECONE_API_KEY;
-    const pineconeIndex = process.env.PINECONE_INDEX;
+    // Check environment variables for the configured backend
+    const environment = checkVectorStoreEnvironment();
 
-    if (!pineconeApiKey) {
-      console.error('❌ PINECONE_API_KEY is not defined in environment variables');
+    if (!environment.success) {
+      console.error(`❌ ${environment.message}`);
       return NextResponse.json(
-        { error: 'PINECONE_API_KEY is not defined', success: false },
+        { error: environment.message, backend: environment.backend, success: false },
         { status: 500 }
       );
     }
 
-    if (!pineconeIndex) {
-      console.error('❌ PINECONE_INDEX is not defined in environment variables');
-      return NextResponse.json(
-        { error: 'PINECONE_INDEX is not defined', success: false },
-        { status: 500 }
-      );
-    }
-
-    // Initialize the Pinecone client and verify connection
-    getPineconeClient();
-
-    // Try to get the index
-    const index = getPineconeIndex();
+    // Try to get the vector store
+    const vectorStore = getVectorStore();
 
     // Try to get index stats
-    const stats = await index.describeIndexStats();
+    const stats = await vectorStore.describeStats();
 
     return NextResponse.json({
       success: true,
-      message: 'Pinecone connection test successful',
-      indexName: pineconeIndex,
+      message: `${vectorStore.backend === 'local' ? 'Local vector store' : 'Pinecone'} connection test successful`,
+      backend: vectorStore.backend,
+      indexName: vectorStore.backend === 'pinecone' ? process.env.PINECONE_INDEX : undefined,
       stats: {
         dimension: stats.dimension,
-        namespaces: stats.namespaces ? Object.keys(stats.namespaces).length : 0,
+        namespaces: Object.keys(stats.namespaces).length,
         totalVectors: stats.totalRecordCount
       }
     });
   } catch (error) {
-    console.error('❌ Pinecone connection test failed:', error);
+    console.error('❌ Vector store connection test failed:', error);
     return NextResponse.json(
       {
-        error: 'Failed to connect to Pinecone',
+        error: 'Failed to connect to vector store',
         details: error instanceof Error ? error.message : 'Unknown error',
         success: false
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import Sidebar from '@/components/Sidebar';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { analyzeCampaign, createCampaign, deleteCampaign, fetchCampaigns, fetchVideos } from '@/hooks/apiHooks';
+import { Campaign, CampaignAnalysis, FusionStrategy, VideoData } from '@/types';
+
+const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || '';
+
+type ResultSort = 'best' | 'mean' | 'coverage';
+
+const videoTitle = (video: VideoData) =>
+  video.system_metadata?.video_title || video.system_metadata?.filename || `Video ${video._id}`;
+
+export default function CampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [ads, setAds] = useState<VideoData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftAdIds, setDraftAdIds] = useState<string[]>([]);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+  const [fusionStrategy, setFusionStrategy] = useState<FusionStrategy>('weighted_sum');
+  const [analysis, setAnalysis] = useState<CampaignAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [resultSort, setResultSort] = useState<ResultSort>('best');
+
+  // Campaigns and every ad in the ads index, for the campaign editor
+  useEffect(() => {
+    const loadAds = async () => {
+      const allAds: VideoData[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await fetchVideos(page, adsIndexId, 50);
+        allAds.push(...response.data);
+        totalPages = response.page_info?.total_page || 1;
+        page++;
+      } while (page <= totalPages);
+      return allAds;
+    };
+
+    Promise.all([fetchCampaigns(), loadAds()])
+      .then(([loadedCampaigns, loadedAds]) => {
+        setCampaigns(loadedCampaigns);
+        setAds(loadedAds);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load campaigns'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const adTitles = useMemo(() => new Map(ads.map(ad => [ad._id, videoTitle(ad)])), [ads]);
+  const selectedCampaign = campaigns.find(campaign => campaign.id === selectedCampaignId) || null;
+
+  const toggleDraftAd = (adId: string) => {
+    setDraftAdIds(prev => (prev.includes(adId) ? prev.filter(id => id !== adId) : [...prev, adId]));
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const campaign = await createCampaign(draftName, draftAdIds);
+      setCampaigns(prev => [...prev, campaign]);
+      setSelectedCampaignId(campaign.id);
+      setAnalysis(null);
+      setDraftName('');
+      setDraftAdIds([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError(null);
+    try {
+      await deleteCampaign(id);
+      setCampaigns(prev => prev.filter(campaign => campaign.id !== id));
+      if (selectedCampaignId === id) {
+        setSelectedCampaignId(null);
+        setAnalysis(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete campaign');
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!selectedCampaignId) return;
+
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      setAnalysis(await analyzeCampaign(selectedCampaignId, { strategy: fusionStrategy }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze campaign');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const sortedResults = useMemo(() => {
+    if (!analysis) return [];
+    const sortKey = {
+      best: 'bestScore',
+      mean: 'meanScore',
+      coverage: 'coverage'
+    } as const;
+    return [...analysis.results].sort((a, b) => b[sortKey[resultSort]] - a[sortKey[resultSort]]);
+  }, [analysis, resultSort]);
+
+  return (
+    <div className="flex mt-5 min-h-screen bg-zinc-100">
+      <Sidebar activeMenu="campaigns" />
+
+      <div className="flex-1 overflow-auto ml-54">
+        <div className="p-8 max-w-6xl mx-auto">
+          <h1 className="text-2xl font-bold mb-2">Campaigns</h1>
+          <p className="mb-6 text-gray-600">
+            Group ad variants into a campaign and find the content that fits it, with the best ad variant for each video.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12"><LoadingSpinner /></div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                <div className="bg-white p-4 rounded-lg shadow-md">
+                  <h2 className="text-lg font-semibold mb-3">Campaigns</h2>
+                  {campaigns.length === 0 ? (
+                    <p className="text-sm text-gray-600">No campaigns yet.</p>
+                  ) : (
+                    <ul className="space-y-2 text-sm">
+                      {campaigns.map(campaign => (
+                        <li key={campaign.id} className="flex items-center justify-between gap-2">
+                          <button
+                            onClick={() => { setSelectedCampaignId(campaign.id); setAnalysis(null); }}
+                            className={`text-left truncate ${selectedCampaignId === campaign.id ? 'font-semibold' : ''}`}
+                          >
+                            {campaign.name} ({campaign.adIds.length} ads)
+                          </button>
+                          <button
+                            onClick={() => handleDelete(campaign.id)}
+                            className="text-red-600 hover:underline shrink-0"
+                          >
+                            Delete
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="bg-white p-4 rounded-lg shadow-md">
+                  <h2 className="text-lg font-semibold mb-3">New Campaign</h2>
+                  <input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    placeholder="Campaign name"
+                    className="w-full p-2 mb-3 border border-gray-300 rounded-md text-sm"
+                  />
+                  <div className="max-h-48 overflow-y-auto mb-3 space-y-1 text-sm">
+                    {ads.map(ad => (
+                      <label key={ad._id} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={draftAdIds.includes(ad._id)}
+                          onChange={() => toggleDraftAd(ad._id)}
+                        />
+                        <span className="truncate">{videoTitle(ad)}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    onClick={handleCreate}
+                    disabled={!draftName.trim() || draftAdIds.length === 0}
+                    className="px-4 py-2 rounded-md text-white text-sm bg-black hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    Create Campaign ({draftAdIds.length} ads)
+                  </button>
+                </div>
+              </div>
+
+              {selectedCampaign && (
+                <div className="flex flex-wrap items-center gap-4 mb-6">
+                  <span className="font-medium">{selectedCampaign.name}</span>
+                  <select
+                    value={fusionStrategy}
+                    onChange={(e) => setFusionStrategy(e.target.value as FusionStrategy)}
+                    disabled={isAnalyzing}
+                    className="p-2 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    <option value="weighted_sum">Weighted sum</option>
+                    <option value="rrf">Reciprocal rank fusion</option>
+                    <option value="max_boost">Max with boost</option>
+                  </select>
+                  <button
+                    onClick={handleAnalyze}
+                    disabled={isAnalyzing}
+                    className={`px-4 py-2 rounded-md text-white ${
+                      isAnalyzing ? 'bg-gray-400 cursor-not-allowed' : 'bg-black hover:bg-gray-800 cursor-pointer'
+                    }`}
+                  >
+                    {isAnalyzing ? 'Analyzing...' : 'Analyze Campaign'}
+                  </button>
+                </div>
+              )}
+
+              {analysis && !isAnalyzing && (
+                <>
+                  <div className="flex items-center gap-2 mb-3 text-sm">
+                    <span className="text-gray-700">
+                      {analysis.results.length} content videos matched {analysis.ads.length} ads
+                      {analysis.failures.length > 0 && ` (${analysis.failures.length} ads failed)`}
+                    </span>
+                    <label htmlFor="result-sort" className="ml-4 text-gray-600">Sort by</label>
+                    <select
+                      id="result-sort"
+                      value={resultSort}
+                      onChange={(e) => setResultSort(e.target.value as ResultSort)}
+                      className="p-1 border border-gray-300 rounded-md bg-white"
+                    >
+                      <option value="best">Best ad score</option>
+                      <option value="mean">Mean score</option>
+                      <option value="coverage">Coverage</option>
+                    </select>
+                  </div>
+
+                  <div className="overflow-auto bg-white rounded-lg shadow-md">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="p-2">Content</th>
+                          <th className="p-2">Best ad</th>
+                          <th className="p-2">Best score</th>
+                          <th className="p-2">Mean score</th>
+                          <th className="p-2">Coverage</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sortedResults.map(result => (
+                          <tr key={result.contentId} className="border-t border-gray-100">
+                            <td className="p-2 truncate max-w-xs" title={result.title}>{result.title}</td>
+                            <td className="p-2 truncate max-w-xs">{adTitles.get(result.bestAdId) || result.bestAdId}</td>
+                            <td className="p-2">{result.bestScore.toFixed(3)}</td>
+                            <td className="p-2">{result.meanScore.toFixed(3)}</td>
+                            <td
+                              className="p-2"
+                              title={result.adScores
+                                .map(({ adId, score }) => `${adTitles.get(adId) || adId}: ${score.toFixed(3)}`)
+                                .join('\n')}
+                            >
+                              {result.adScores.length} / {analysis.ads.length} ads
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,10 +17,12 @@ import {
   convertMetadataToTags,
   fetchVideoDetails,
   fetchIndexingTasks,
+  fetchTaxonomy,
 } from '@/hooks/apiHooks';
 import LoadingSpinner from '../../components/LoadingSpinner';
 import { AdItemType, VideoData, Tag,  IndexingTask } from '@/types';
 import FilterMenu, { ActiveFilters, useFilterState } from '@/components/FilterMenu';
+import { DEFAULT_TAXONOMY } from '@/utils/taxonomy';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -72,6 +74,12 @@ export default function ContentLibraryPage() {
     refetchInterval: 5000,
   });
 
+  // Tagging taxonomy for parsing generated metadata and building the filters
+  const { data: taxonomy = DEFAULT_TAXONOMY } = useQuery({
+    queryKey: ['taxonomy'],
+    queryFn: fetchTaxonomy,
+  });
+
   // Replace the filter state with the useFilterState hook
   const {
     filterOptions,
@@ -91,7 +99,7 @@ export default function ContentLibraryPage() {
     handleFilter,
     handleFilterCategorySelect,
     closeFilterMenu,
-  } = useFilterState(adItems);
+  } = useFilterState(adItems, taxonomy);
 
   // Intersection Observer for infinite scroll
   const { ref: observerRef, inView } = useInView({
@@ -264,7 +272,7 @@ export default function ContentLibraryPage() {
         const hashtagText = await generateMetadata(videoId);
 
         if (hashtagText) {
-          const metadata = parseHashtags(hashtagText);
+          const metadata = parseHashtags(hashtagText, taxonomy);
 
           await updateVideoMetadata(videoId, contentIndexId, metadata);
 
@@ -299,7 +307,7 @@ export default function ContentLibraryPage() {
       setVideosInProcessing(prev => prev.filter(id => id !== videoId));
       return false;
     }
-  }, [contentIndexId, processedVideoIds, videosInProcessing]);
+  }, [contentIndexId, processedVideoIds, videosInProcessing, taxonomy]);
 
   // Function to filter videos that need metadata processing
   const filterVideosNeedingMetadata = (videos: VideoData[], processedIds: Set<string>, inProcessingIds: string[]) => {
@@ -1,15 +1,24 @@
 "use client";
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   fetchVideos,
   textToVideoEmbeddingSearch,
   videoToVideoEmbeddingSearch,
+  contentToAdsEmbeddingSearch,
   checkAndEnsureEmbeddings,
-  checkVectorExists,
+  fetchEmbeddingStatuses,
   getAndStoreEmbeddings,
-  fetchIndexingTasks
+  fetchIndexingTasks,
+  fetchFusedResults,
+  applyBrandSafety,
+  saveAnalysisRun,
+  fetchAnalysisRuns,
+  fetchAnalysisRun,
+  fetchAnalysisRunDiff,
+  rerankResults,
+  planAdBreaks
 } from '@/hooks/apiHooks';
 import VideosDropDown from '@/components/VideosDropdown';
 import Video from '@/components/Video';
@@ -19,7 +28,50 @@ import Sidebar from '@/components/Sidebar';
 import { useGlobalState } from '@/providers/ReactQueryProvider';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import VideoModalSimple from '@/components/VideoModalSimple';
-import { EmbeddingSearchResult } from '@/types';
+import {
+  AdBreakPlan,
+  AnalysisDirection,
+  ChaptersData,
+  EmbeddingSearchResult,
+  ExcludedSearchResult,
+  FusionOptions,
+  FusionStrategy,
+  RerankOptions
+} from '@/types';
+import { DEFAULT_FUSION_OPTIONS } from '@/utils/scoreFusion';
+
+// Top-ranked ads offered to the ad-break planner
+const BREAK_PLAN_CANDIDATES = 10;
+
+const formatBreakTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Typed ranking inputs wait this long after the last keystroke before re-ranking
+const RANKING_INPUT_DEBOUNCE_MS = 400;
+
+const CHANGE_LABELS = { new: 'New', dropped: 'Dropped', up: '▲', down: '▼', same: '–' };
+
+// Settings that turn raw search results into the ranked list
+interface RankingSettings {
+  strategy: FusionStrategy;
+  // Weight of the metadata tag overlap; text and video keep their default weights
+  tagWeight: number;
+  // Hard filter: hide content whose audience does not overlap the ad's target demographics
+  requireAudienceOverlap: boolean;
+  rerank: Required<RerankOptions>;
+}
+
+const DEFAULT_RANKING: RankingSettings = {
+  strategy: 'weighted_sum',
+  tagWeight: 0,
+  requireAudienceOverlap: false,
+  rerank: { mmrLambda: 1, minScore: 0, maxPerSource: 0 }
+};
+
+const fusionOptionsFor = ({ strategy, tagWeight }: RankingSettings): FusionOptions => ({
+  strategy,
+  weights: { ...DEFAULT_FUSION_OPTIONS.weights, tag: tagWeight }
+});
 
 
 // VideoPage adapter for the API response
@@ -34,11 +86,40 @@ const adaptToPaginatedResponse = (response: PaginatedResponse): VideoPage => ({
   }
 });
 
+// Every video of an index, page by page
+const fetchAllVideos = async (indexId: string) => {
+  const videos: VideoData[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await fetchVideos(page, indexId, 50);
+    videos.push(...response.data);
+    totalPages = response.page_info?.total_page || 1;
+    page++;
+  } while (page <= totalPages);
+  return videos;
+};
+
 export default function ContextualAnalysis() {
+  const [direction, setDirection] = useState<AnalysisDirection>('ad_to_content');
   const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
   const [selectedVideo, setSelectedVideo] = useState<VideoData | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [similarResults, setSimilarResults] = useState<EmbeddingSearchResult[]>([]);
+  const [excludedResults, setExcludedResults] = useState<ExcludedSearchResult[]>([]);
+  const [ranking, setRanking] = useState<RankingSettings>(DEFAULT_RANKING);
+  // Only the latest ranking request may update the results; older responses are dropped
+  const rankRequestRef = useRef(0);
+  const rankTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [audienceFiltered, setAudienceFiltered] = useState(0);
+  // Results dropped by the score cutoff and per-source caps
+  const [rerankRemoved, setRerankRemoved] = useState(0);
+  const [searchResults, setSearchResults] = useState<{ text: EmbeddingSearchResult[]; video: EmbeddingSearchResult[] } | null>(null);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+  const [breakPlan, setBreakPlan] = useState<AdBreakPlan | null>(null);
+  const [isPlanningBreaks, setIsPlanningBreaks] = useState(false);
+  const [breakPlanError, setBreakPlanError] = useState<string | null>(null);
+  const [compareRunIds, setCompareRunIds] = useState<string[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isLoadingEmbeddings, setIsLoadingEmbeddings] = useState(false);
@@ -56,9 +137,32 @@ export default function ContextualAnalysis() {
   const { setSelectedAdId } = useGlobalState();
   const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || '';
   const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || '';
+  // The dropdown lists videos from the source index; results come from the other one
+  const sourceIndexId = direction === 'ad_to_content' ? adsIndexId : contentIndexId;
+  const resultIndexId = direction === 'ad_to_content' ? contentIndexId : adsIndexId;
 
   const queryClient = useQueryClient();
 
+  // Past runs of the selected video in the current direction
+  const { data: analysisRuns = [] } = useQuery({
+    queryKey: ['analysisRuns', selectedVideoId],
+    queryFn: () => fetchAnalysisRuns(selectedVideoId!),
+    enabled: !!selectedVideoId,
+    select: runs => runs.filter(run => run.direction === direction)
+  });
+
+  // Ranking changes between the two runs picked for comparison, older run first
+  const { data: runDiff, isFetching: isDiffLoading } = useQuery({
+    queryKey: ['analysisRunDiff', ...compareRunIds],
+    queryFn: () => {
+      const [fromId, toId] = [...compareRunIds].sort((a, b) =>
+        analysisRuns.findIndex(run => run.id === b) - analysisRuns.findIndex(run => run.id === a)
+      );
+      return fetchAnalysisRunDiff(fromId, toId);
+    },
+    enabled: compareRunIds.length === 2
+  });
+
   // Query to cache embedding check results
   useQuery({
     queryKey: ['embeddingStatus', selectedVideoId],
@@ -86,7 +190,7 @@ export default function ContextualAnalysis() {
     staleTime: Infinity,
   });
 
-  // Query to fetch videos from the ads index
+  // Query to fetch videos from the source index (ads, or content in reverse mode)
   const {
     data: videosData,
     fetchNextPage,
@@ -94,15 +198,15 @@ export default function ContextualAnalysis() {
     isFetchingNextPage,
     isLoading,
   } = useInfiniteQuery<PaginatedResponse, Error>({
-    queryKey: ['videos', adsIndexId],
-    queryFn: ({ pageParam = 1 }) => fetchVideos(pageParam as number, adsIndexId),
+    queryKey: ['videos', sourceIndexId],
+    queryFn: ({ pageParam = 1 }) => fetchVideos(pageParam as number, sourceIndexId),
     initialPageParam: 1,
     getNextPageParam: (lastPage: PaginatedResponse) => {
       return lastPage.page_info.page < lastPage.page_info.total_page
         ? lastPage.page_info.page + 1
         : undefined;
     },
-    enabled: !!adsIndexId,
+    enabled: !!sourceIndexId,
   });
 
   // Fetch content videos when component mounts and process their embeddings once
@@ -200,43 +304,31 @@ export default function ContextualAnalysis() {
       const existingEmbeddings: string[] = [];
       const processedVideoIds = new Set<string>();
 
-      for (const video of readyVideos) {
+      // Check every ready video's embedding state in one request
+      const { statuses } = await fetchEmbeddingStatuses(contentIndexId, readyVideos.map(video => video._id));
+
+      readyVideos.forEach(video => {
         const videoId = video._id;
+        const state = statuses[videoId]?.state || 'missing';
+        const hasEmbedding = state === 'complete';
 
-        const cacheKey = ['videoEmbedding', contentIndexId, videoId];
-        const cachedStatus = queryClient.getQueryData(cacheKey) as { exists: boolean } | undefined;
+        queryClient.setQueryData(['videoEmbedding', contentIndexId, videoId], { exists: hasEmbedding, state });
 
-        if (cachedStatus) {
-          if (cachedStatus.exists) {
-            existingEmbeddings.push(videoId);
-            processedVideoIds.add(videoId);
-          } else {
-            missingEmbeddings.push(videoId);
-          }
+        if (hasEmbedding) {
+          existingEmbeddings.push(videoId);
+          processedVideoIds.add(videoId);
         } else {
-          const hasEmbedding = await checkVectorExists(videoId, contentIndexId);
-
-          queryClient.setQueryData(cacheKey, { exists: hasEmbedding });
-
-          if (hasEmbedding) {
-            existingEmbeddings.push(videoId);
-            processedVideoIds.add(videoId);
-          } else {
-            missingEmbeddings.push(videoId);
-          }
+          missingEmbeddings.push(videoId);
         }
+      });
 
-        setContentEmbeddingsProgress(prev => ({
-          ...prev,
-          processed: prev.processed + 1
-        }));
-      }
+      setContentEmbeddingsProgress({ processed: readyVideos.length, total: readyVideos.length });
 
       if (missingEmbeddings.length > 0) {
         setContentEmbeddingsProgress({ processed: 0, total: missingEmbeddings.length });
 
         for (const videoId of missingEmbeddings) {
-          const embedResult = await getAndStoreEmbeddings(contentIndexId, videoId);
+          const embedResult = await getAndStoreEmbeddings(contentIndexId, videoId, true);
 
           if (embedResult.success) {
             queryClient.setQueryData(['videoEmbedding', contentIndexId, videoId], { exists: true });
@@ -293,7 +385,7 @@ export default function ContextualAnalysis() {
     }
   }, [videosData]);
 
-  // Automatically check ONLY the ad video embedding when a video is selected
+  // Automatically check ONLY the selected video's embedding when a video is selected
   useEffect(() => {
     if (selectedVideoId && !isLoadingEmbeddings) {
       const cachedStatus = queryClient.getQueryData(['embeddingStatus', selectedVideoId]) as
@@ -317,14 +409,52 @@ export default function ContextualAnalysis() {
     }
   }, [selectedVideoId, isLoadingEmbeddings, queryClient]);
 
+  // Drop a debounced re-rank and any ranking response still in flight
+  const cancelPendingRanking = () => {
+    clearTimeout(rankTimerRef.current);
+    rankRequestRef.current++;
+  };
+
+  useEffect(() => () => clearTimeout(rankTimerRef.current), []);
+
   // Handle video change
   const handleVideoChange = async (videoId: string) => {
+    cancelPendingRanking();
     setSelectedVideoId(videoId);
     const allVideos = videosData?.pages.flatMap((page: PaginatedResponse) => page.data) || [];
     const video = allVideos.find((v: VideoData) => v._id === videoId);
     setSelectedVideo(video || null);
     setSimilarResults([]);
-    setSelectedAdId(videoId);
+    setBreakPlan(null);
+    setExcludedResults([]);
+    setAudienceFiltered(0);
+    setRerankRemoved(0);
+    setSearchResults(null);
+    setOpenRunId(null);
+    setCompareRunIds([]);
+    // In reverse mode the ad is chosen by clicking a result instead
+    if (direction === 'ad_to_content') {
+      setSelectedAdId(videoId);
+    }
+  };
+
+  // Switch between ad → content and content → ads; the first video of the new source index is auto-selected
+  const handleDirectionChange = (newDirection: AnalysisDirection) => {
+    if (newDirection === direction) return;
+
+    cancelPendingRanking();
+    setDirection(newDirection);
+    setSelectedVideoId(null);
+    setSelectedVideo(null);
+    setSimilarResults([]);
+    setBreakPlan(null);
+    setExcludedResults([]);
+    setAudienceFiltered(0);
+    setRerankRemoved(0);
+    setSearchResults(null);
+    setOpenRunId(null);
+    setCompareRunIds([]);
+    setSelectedAdId(null);
   };
 
   // Function to check and ensure embeddings exist
@@ -332,12 +462,23 @@ export default function ContextualAnalysis() {
     if (!selectedVideoId) return false;
 
     try {
+      // Content embeddings are kept up to date by the background poller; in reverse mode the results
+      // are ads, so their embeddings are checked and ingested here
+      const isReverse = direction === 'content_to_ads';
+      const resultVideos = isReverse
+        ? await queryClient.fetchQuery({
+            queryKey: ['allVideos', adsIndexId],
+            queryFn: () => fetchAllVideos(adsIndexId),
+            staleTime: 60 * 1000,
+          })
+        : contentVideos;
+
       const result = await checkAndEnsureEmbeddings(
         selectedVideoId,
-        adsIndexId,
-        contentIndexId,
-        contentVideos,
-        false
+        sourceIndexId,
+        resultIndexId,
+        resultVideos,
+        isReverse
       );
 
       return result.success;
@@ -350,6 +491,7 @@ export default function ContextualAnalysis() {
   // Handle contextual analysis
   const handleContextualAnalysis = async () => {
     if (!selectedVideoId) return;
+    cancelPendingRanking();
 
     try {
       setIsAnalyzing(true);
@@ -368,89 +510,62 @@ export default function ContextualAnalysis() {
       }
 
       setSimilarResults([]);
+      setBreakPlan(null);
+      setExcludedResults([]);
+      setAudienceFiltered(0);
 
       let textResults: EmbeddingSearchResult[] = [];
       let videoResults: EmbeddingSearchResult[] = [];
 
-      try {
-        textResults = await textToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
-        if (textResults.length > 0) {
+      if (direction === 'content_to_ads') {
+        try {
+          const { text, video } = await contentToAdsEmbeddingSearch(selectedVideoId, contentIndexId, adsIndexId);
+          textResults = text;
+          videoResults = video;
+        } catch (error) {
+          console.error("Error in content to ads search:", error);
         }
-      } catch (error) {
-        console.error("Error in text-based search:", error);
-      }
-
-      try {
-        videoResults = await videoToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
-
-        if (videoResults.length > 0) {
-        } else {
+      } else {
+        try {
+          textResults = await textToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
+          if (textResults.length > 0) {
+          }
+        } catch (error) {
+          console.error("Error in text-based search:", error);
         }
-      } catch (error) {
-        console.error("Error in video-based search:", error);
-      }
 
-      const combinedResultsMap = new Map();
-
-      textResults.forEach(result => {
-        const videoId = result.metadata?.tl_video_id;
-        if (videoId) {
-          combinedResultsMap.set(videoId, {
-            videoId,
-            metadata: result.metadata,
-            textScore: result.score,
-            videoScore: 0,
-            finalScore: result.score,
-            source: "TEXT"
-          });
-        }
-      });
+        try {
+          videoResults = await videoToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
 
-      videoResults.forEach(result => {
-        const videoId = result.metadata?.tl_video_id;
-        if (videoId) {
-          if (combinedResultsMap.has(videoId)) {
-            // This is a match found in both searches - update it
-            const existingResult = combinedResultsMap.get(videoId);
-
-            // Apply a significant boost for results found in both searches (50% boost)
-            const boostMultiplier = 2;
-
-            // Combine the scores: use the max of both scores and apply the boost
-            const maxScore = Math.max(existingResult.textScore, result.score);
-            const boostedScore = maxScore * boostMultiplier;
-
-            combinedResultsMap.set(videoId, {
-              ...existingResult,
-              videoScore: result.score,
-              finalScore: boostedScore,  // Boosted score for appearing in both searches
-              source: "BOTH"
-            });
+          if (videoResults.length > 0) {
           } else {
-            combinedResultsMap.set(videoId, {
-              videoId,
-              metadata: result.metadata,
-              textScore: 0,
-              videoScore: result.score,
-              finalScore: result.score,
-              source: "VIDEO"
-            });
           }
+        } catch (error) {
+          console.error("Error in video-based search:", error);
         }
-      });
-
-      const mergedResults = Array.from(combinedResultsMap.values())
-        .sort((a, b) => b.finalScore - a.finalScore);
+      }
 
-      const formattedResults = mergedResults.map(item => ({
-        score: item.finalScore,
-        metadata: item.metadata,
-        originalSource: item.source,
-        textScore: item.textScore,
-        videoScore: item.videoScore
-      }));
+      // Keep the raw results so other fusion strategies can be compared without searching again
+      setSearchResults({ text: textResults, video: videoResults });
+      const { results, excluded } = await rankResults(selectedVideoId, textResults, videoResults, ranking);
 
-      setSimilarResults(formattedResults);
+      try {
+        const { id } = await saveAnalysisRun({
+          videoId: selectedVideoId,
+          videoTitle: selectedVideo?.system_metadata?.video_title || selectedVideo?.system_metadata?.filename,
+          direction,
+          fusion: fusionOptionsFor(ranking),
+          requireAudienceOverlap: ranking.requireAudienceOverlap,
+          rerank: ranking.rerank,
+          searchResults: { text: textResults, video: videoResults },
+          results,
+          excluded
+        });
+        setOpenRunId(id);
+        queryClient.invalidateQueries({ queryKey: ['analysisRuns', selectedVideoId] });
+      } catch (error) {
+        console.error("Error saving analysis run:", error);
+      }
 
     } catch (error) {
       console.error("Error during contextual analysis:", error);
@@ -459,6 +574,116 @@ export default function ContextualAnalysis() {
     }
   };
 
+  // Fuse text and video results, apply brand-safety rules, then the cutoff, caps and diversity re-ranking
+  const rankResults = async (
+    videoId: string,
+    textResults: EmbeddingSearchResult[],
+    videoResults: EmbeddingSearchResult[],
+    settings: RankingSettings
+  ) => {
+    const request = ++rankRequestRef.current;
+    const isLatest = () => request === rankRequestRef.current;
+
+    const { results: fusedResults, audienceFiltered: filteredCount = 0 } = await fetchFusedResults(
+      textResults,
+      videoResults,
+      fusionOptionsFor(settings),
+      { videoId, direction, requireAudienceOverlap: settings.requireAudienceOverlap }
+    );
+    if (isLatest()) setAudienceFiltered(filteredCount);
+
+    let results: EmbeddingSearchResult[] = fusedResults;
+    let excluded: ExcludedSearchResult[] = [];
+    try {
+      ({ results, excluded } = await applyBrandSafety(videoId, direction, fusedResults));
+    } catch (error) {
+      console.error("Error applying brand-safety rules:", error);
+    }
+
+    try {
+      const reranked = await rerankResults(direction, results, settings.rerank);
+      results = reranked.results;
+      if (isLatest()) setRerankRemoved(reranked.removed.belowMinScore + reranked.removed.sourceCapped);
+    } catch (error) {
+      console.error("Error re-ranking results:", error);
+      if (isLatest()) setRerankRemoved(0);
+    }
+
+    if (isLatest()) {
+      setSimilarResults(results);
+      setExcludedResults(excluded);
+    }
+    return { results, excluded };
+  };
+
+  // Show a stored run as it was ranked, without searching again
+  const handleOpenRun = async (runId: string) => {
+    cancelPendingRanking();
+    try {
+      const run = await fetchAnalysisRun(runId);
+      setSearchResults(run.searchResults);
+      setSimilarResults(run.results);
+      setExcludedResults(run.excluded);
+      setRanking({
+        strategy: run.fusion.strategy || DEFAULT_RANKING.strategy,
+        tagWeight: run.fusion.weights?.tag ?? DEFAULT_RANKING.tagWeight,
+        requireAudienceOverlap: !!run.requireAudienceOverlap,
+        rerank: { ...DEFAULT_RANKING.rerank, ...run.rerank }
+      });
+      setAudienceFiltered(0);
+      setRerankRemoved(0);
+      setOpenRunId(run.id);
+    } catch (error) {
+      console.error("Error opening analysis run:", error);
+    }
+  };
+
+  // Assign the top-ranked ads to the chapter breaks of the selected content video
+  const handlePlanBreaks = async () => {
+    if (!selectedVideoId || similarResults.length === 0) return;
+
+    setIsPlanningBreaks(true);
+    setBreakPlanError(null);
+    try {
+      const candidates = similarResults
+        .filter(result => result.metadata?.tl_video_id)
+        .slice(0, BREAK_PLAN_CANDIDATES)
+        .map(result => ({ adId: result.metadata!.tl_video_id, score: result.score }));
+      // Reuse chapters the video modal already generated for this video
+      const chapters = queryClient.getQueryData<ChaptersData>(['chapters', selectedVideoId])?.chapters;
+      setBreakPlan(await planAdBreaks(selectedVideoId, candidates, chapters));
+    } catch (error) {
+      console.error("Error planning ad breaks:", error);
+      setBreakPlanError(error instanceof Error ? error.message : 'Failed to plan ad breaks');
+    } finally {
+      setIsPlanningBreaks(false);
+    }
+  };
+
+  // Keep at most two runs selected for the diff view
+  const toggleCompareRun = (runId: string) => {
+    setCompareRunIds(prev =>
+      prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId].slice(-2)
+    );
+  };
+
+  // Re-rank the last search when any ranking setting changes. Typed inputs pass a delay so that only
+  // the last value is ranked.
+  const handleRankingChange = (changes: Partial<RankingSettings>, delayMs = 0) => {
+    const settings = { ...ranking, ...changes };
+    setRanking(settings);
+    clearTimeout(rankTimerRef.current);
+    if (!searchResults || !selectedVideoId) return;
+
+    const videoId = selectedVideoId;
+    const { text, video } = searchResults;
+    rankTimerRef.current = setTimeout(() => {
+      rankResults(videoId, text, video, settings).catch(error => {
+        console.error("Error fusing search results:", error);
+      });
+    }, delayMs);
+  };
+
   const adaptedVideosData = videosData ? {
     pages: videosData.pages.map(adaptToPaginatedResponse),
     pageParams: videosData.pageParams.map(param => typeof param === 'number' ? param : 1)
@@ -544,6 +769,27 @@ export default function ContextualAnalysis() {
             </div>
           )}
 
+          {/* Analysis direction toggle */}
+          <div className="mb-4 flex justify-center">
+            <div className="inline-flex rounded-xl border border-gray-300 bg-white p-1 text-sm">
+              {([
+                ['ad_to_content', 'Ad → Content'],
+                ['content_to_ads', 'Content → Ads']
+              ] as [AnalysisDirection, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => handleDirectionChange(value)}
+                  disabled={isAnalyzing}
+                  className={`px-4 py-1 rounded-lg cursor-pointer ${
+                    direction === value ? 'bg-black text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Dropdown menu */}
           <div className="mb-10">
             <VideosDropDown
@@ -556,7 +802,7 @@ export default function ContextualAnalysis() {
               selectedFile={null}
               taskId={null}
               footageVideoId={selectedVideoId}
-              indexId={adsIndexId}
+              indexId={sourceIndexId}
             />
           </div>
 
@@ -569,7 +815,7 @@ export default function ContextualAnalysis() {
                 {selectedVideoId ? (
                   <Video
                     videoId={selectedVideoId}
-                    indexId={adsIndexId}
+                    indexId={sourceIndexId}
                     showTitle={true}
                     videoDetails={undefined}
                     playing={isPlaying}
@@ -577,7 +823,7 @@ export default function ContextualAnalysis() {
                     />
                 ) : (
                   <div className="border rounded-[45.06px] bg-gray-50 p-8 flex items-center justify-center h-38 w-[320px]">
-                    <p>Select an ad from the dropdown</p>
+                    <p>{direction === 'ad_to_content' ? 'Select an ad from the dropdown' : 'Select a content video from the dropdown'}</p>
                   </div>
                 )}
               </div>
@@ -669,14 +915,251 @@ export default function ContextualAnalysis() {
               </button>
             </div>
 
+            <div className="mt-3 flex justify-center items-center gap-2 text-sm">
+              <label htmlFor="fusion-strategy" className="text-gray-600">Score fusion</label>
+              <select
+                id="fusion-strategy"
+                value={ranking.strategy}
+                onChange={(e) => handleRankingChange({ strategy: e.target.value as FusionStrategy })}
+                disabled={isAnalyzing}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value="weighted_sum">Weighted sum</option>
+                <option value="rrf">Reciprocal rank fusion</option>
+                <option value="max_boost">Max with boost</option>
+              </select>
+              <label htmlFor="tag-weight" className="ml-4 text-gray-600">Tag weight</label>
+              <select
+                id="tag-weight"
+                value={ranking.tagWeight}
+                onChange={(e) => handleRankingChange({ tagWeight: Number(e.target.value) })}
+                disabled={isAnalyzing}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value={0}>Off</option>
+                <option value={0.25}>0.25</option>
+                <option value={0.5}>0.5</option>
+                <option value={1}>1</option>
+              </select>
+              <label className="ml-4 flex items-center gap-1 text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={ranking.requireAudienceOverlap}
+                  onChange={(e) => handleRankingChange({ requireAudienceOverlap: e.target.checked })}
+                  disabled={isAnalyzing}
+                />
+                Audience overlap only
+              </label>
+            </div>
+
+            {/* Applied on the server after brand safety, so stored runs keep the same list */}
+            <div className="mt-2 flex justify-center items-center gap-2 text-sm">
+              <label htmlFor="diversity" className="text-gray-600">Diversity</label>
+              <select
+                id="diversity"
+                value={ranking.rerank.mmrLambda}
+                onChange={(e) => handleRankingChange({ rerank: { ...ranking.rerank, mmrLambda: Number(e.target.value) } })}
+                disabled={isAnalyzing}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value={1}>Off</option>
+                <option value={0.8}>Low</option>
+                <option value={0.6}>Medium</option>
+                <option value={0.4}>High</option>
+              </select>
+              <label htmlFor="min-score" className="ml-4 text-gray-600">Min score</label>
+              <input
+                id="min-score"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={ranking.rerank.minScore}
+                onChange={(e) => handleRankingChange({
+                  rerank: { ...ranking.rerank, minScore: Math.min(1, Math.max(0, Number(e.target.value) || 0)) }
+                }, RANKING_INPUT_DEBOUNCE_MS)}
+                disabled={isAnalyzing}
+                className="w-20 p-1 border border-gray-300 rounded-md bg-white"
+              />
+              <label htmlFor="max-per-source" className="ml-4 text-gray-600">Max per source</label>
+              <select
+                id="max-per-source"
+                value={ranking.rerank.maxPerSource}
+                onChange={(e) => handleRankingChange({ rerank: { ...ranking.rerank, maxPerSource: Number(e.target.value) } })}
+                disabled={isAnalyzing}
+                className="p-1 border border-gray-300 rounded-md bg-white"
+              >
+                <option value={0}>No cap</option>
+                <option value={1}>1</option>
+                <option value={2}>2</option>
+                <option value={3}>3</option>
+              </select>
+            </div>
+
+            {/* Past runs of the selected video; pick two to compare their rankings */}
+            {analysisRuns.length > 0 && (
+              <details className="mt-6 bg-white p-4 rounded-lg border border-gray-200">
+                <summary className="cursor-pointer text-sm font-medium">
+                  Analysis history ({analysisRuns.length})
+                </summary>
+                <ul className="mt-3 space-y-2 text-sm">
+                  {analysisRuns.map(run => (
+                    <li key={run.id} className="flex items-center justify-between gap-4">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={compareRunIds.includes(run.id)}
+                          onChange={() => toggleCompareRun(run.id)}
+                        />
+                        <span className={run.id === openRunId ? 'font-medium' : ''}>
+                          {new Date(run.createdAt).toLocaleString()}
+                        </span>
+                      </label>
+                      <span className="text-gray-600">
+                        {run.fusion.strategy || 'weighted_sum'} · {run.resultCount} results
+                      </span>
+                      <button
+                        className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                        onClick={() => handleOpenRun(run.id)}
+                        disabled={isAnalyzing || run.id === openRunId}
+                      >
+                        Open
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                {compareRunIds.length === 2 && (
+                  <div className="mt-4">
+                    {isDiffLoading || !runDiff ? (
+                      <LoadingSpinner size="sm" />
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600">
+                            <th className="py-1">Video</th>
+                            <th className="py-1">
+                              Rank {new Date(runDiff.from.createdAt).toLocaleString()}
+                            </th>
+                            <th className="py-1">
+                              Rank {new Date(runDiff.to.createdAt).toLocaleString()}
+                            </th>
+                            <th className="py-1">Change</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {runDiff.entries.map(entry => (
+                            <tr key={entry.videoId} className="border-t border-gray-100">
+                              <td className="py-1 truncate max-w-xs">{entry.title || entry.videoId}</td>
+                              <td className="py-1">{entry.fromRank ?? '–'}</td>
+                              <td className="py-1">{entry.toRank ?? '–'}</td>
+                              <td className={`py-1 ${
+                                entry.change === 'up' || entry.change === 'new'
+                                  ? 'text-green-700'
+                                  : entry.change === 'down' || entry.change === 'dropped'
+                                    ? 'text-red-700'
+                                    : 'text-gray-500'
+                              }`}>
+                                {CHANGE_LABELS[entry.change]}
+                                {(entry.change === 'up' || entry.change === 'down') &&
+                                  ` ${Math.abs(entry.fromRank! - entry.toRank!)}`}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </details>
+            )}
+
+            {ranking.requireAudienceOverlap && audienceFiltered > 0 && !isAnalyzing && (
+              <p className="mt-3 text-center text-sm text-gray-600">
+                {audienceFiltered} result{audienceFiltered === 1 ? '' : 's'} hidden because the audience does not overlap the ad&apos;s target demographics
+              </p>
+            )}
+
+            {rerankRemoved > 0 && !isAnalyzing && (
+              <p className="mt-3 text-center text-sm text-gray-600">
+                {rerankRemoved} result{rerankRemoved === 1 ? '' : 's'} hidden by the minimum score or per-source cap
+              </p>
+            )}
+
             {/* Display analysis results as videos */}
             {similarResults.length > 0 && !isAnalyzing && !isLoadingEmbeddings && (
               <SimilarVideoResults
                 results={similarResults}
-                indexId={contentIndexId}
+                indexId={resultIndexId}
+                sourceVideo={direction === 'content_to_ads' ? selectedVideo || undefined : undefined}
               />
             )}
 
+            {/* Break schedule for the selected content video, built from the ranked ads */}
+            {direction === 'content_to_ads' && similarResults.length > 0 && !isAnalyzing && !isLoadingEmbeddings && (
+              <div className="mt-8 bg-white p-4 rounded-lg border border-gray-200">
+                <div className="flex items-center justify-between gap-4">
+                  <h3 className="text-sm font-medium">Ad break plan</h3>
+                  <button
+                    className="px-3 py-1 text-sm rounded-md text-white bg-black hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    onClick={handlePlanBreaks}
+                    disabled={isPlanningBreaks}
+                  >
+                    {isPlanningBreaks ? 'Planning...' : breakPlan ? 'Re-plan Ad Breaks' : 'Plan Ad Breaks'}
+                  </button>
+                </div>
+                {breakPlanError && <p className="mt-2 text-sm text-red-700">{breakPlanError}</p>}
+                {breakPlan && !isPlanningBreaks && (
+                  <table className="mt-3 w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600">
+                        <th className="py-1">Break</th>
+                        <th className="py-1">Ad</th>
+                        <th className="py-1">Score</th>
+                        <th className="py-1">Why</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {breakPlan.breaks.map(slot => (
+                        <tr key={slot.breakIndex} className="border-t border-gray-100 align-top">
+                          <td className="py-2 pr-2 whitespace-nowrap" title={slot.chapterRationale}>
+                            {formatBreakTime(slot.time)}
+                            {slot.chapterTitle && <div className="text-xs text-gray-500">{slot.chapterTitle}</div>}
+                          </td>
+                          <td className="py-2 pr-2">{slot.adTitle || '–'}</td>
+                          <td className="py-2 pr-2">{slot.adId ? slot.score.toFixed(2) : '–'}</td>
+                          <td className="py-2 text-gray-600">{slot.rationale}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            {/* Results removed by brand-safety rules, with the rule that removed each one */}
+            {excludedResults.length > 0 && !isAnalyzing && !isLoadingEmbeddings && (
+              <details className="mt-8 bg-white p-4 rounded-lg border border-gray-200">
+                <summary className="cursor-pointer text-sm font-medium">
+                  Excluded by brand safety ({excludedResults.length})
+                </summary>
+                <ul className="mt-3 space-y-2 text-sm">
+                  {excludedResults.map(({ result, rule, matchedValues }) => (
+                    <li key={result.metadata?.tl_video_id} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        {result.metadata?.video_title || result.metadata?.video_file || result.metadata?.tl_video_id}
+                      </span>
+                      <span className="text-gray-600 shrink-0">
+                        {rule.name}: {rule.action === 'include'
+                          ? `no ${rule.category} in ${rule.values.join(', ')}`
+                          : `${rule.category} ${matchedValues.join(', ')}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+
             <VideoModalSimple
               videoUrl={selectedVideo?.hls?.video_url || ''}
               videoId={selectedVideoId || ''}
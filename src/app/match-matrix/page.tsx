@@ -0,0 +1,391 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import Sidebar from '@/components/Sidebar';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { allocateInventory, fetchMatchMatrix, startMatchMatrix } from '@/hooks/apiHooks';
+import { AllocationPlan, FusionStrategy, MatchMatrix, MatchMatrixCell } from '@/types';
+
+type AdSort = 'title' | 'best' | 'average';
+
+const DEFAULT_AD_BUDGET = 1000;
+
+// White for 0, black for 1
+const cellColor = (score: number) => {
+  const lightness = Math.round(100 - Math.min(1, Math.max(0, score)) * 100);
+  return `hsl(0, 0%, ${lightness}%)`;
+};
+
+export default function MatchMatrixPage() {
+  const [matrix, setMatrix] = useState<MatchMatrix | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fusionStrategy, setFusionStrategy] = useState<FusionStrategy>('weighted_sum');
+  const [adSort, setAdSort] = useState<AdSort>('best');
+  // Content column clicked to sort ads by their score for it
+  const [sortContentId, setSortContentId] = useState<string | null>(null);
+  // Impression budgets by ad ID; ads without an entry use DEFAULT_AD_BUDGET
+  const [adBudgets, setAdBudgets] = useState<Record<string, number>>({});
+  const [contentCapacity, setContentCapacity] = useState(1000);
+  const [maxPerContent, setMaxPerContent] = useState(500);
+  // One group of competing brands per line, comma-separated
+  const [competitorGroupsText, setCompetitorGroupsText] = useState('');
+  const [allocation, setAllocation] = useState<AllocationPlan | null>(null);
+  const [isAllocating, setIsAllocating] = useState(false);
+
+  useEffect(() => {
+    fetchMatchMatrix()
+      .then(setMatrix)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load match matrix'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Poll while the matrix is being computed
+  useEffect(() => {
+    if (!matrix || matrix.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setMatrix(await fetchMatchMatrix());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load match matrix');
+      }
+    }, 3000);
+
+    return () => clearTimeout(timer);
+  }, [matrix]);
+
+  const handleCompute = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      setMatrix(await startMatchMatrix({ strategy: fusionStrategy }));
+      setSortContentId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start match matrix');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleAllocate = async () => {
+    if (!matrix) return;
+
+    setIsAllocating(true);
+    setError(null);
+    try {
+      setAllocation(await allocateInventory({
+        ads: matrix.ads.map(ad => ({ adId: ad.id, budget: adBudgets[ad.id] ?? DEFAULT_AD_BUDGET })),
+        defaultContentCapacity: contentCapacity,
+        defaultMaxPerContent: maxPerContent,
+        competitorGroups: competitorGroupsText
+          .split('\n')
+          .map(line => line.split(',').map(brand => brand.trim()).filter(Boolean))
+          .filter(group => group.length > 1)
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to allocate inventory');
+    } finally {
+      setIsAllocating(false);
+    }
+  };
+
+  const cellsByPair = useMemo(() => {
+    const cells = new Map<string, MatchMatrixCell>();
+    matrix?.cells.forEach(cell => cells.set(`${cell.adId}:${cell.contentId}`, cell));
+    return cells;
+  }, [matrix]);
+
+  // Undefined for ads whose scoring failed
+  const scoreOf = (adId: string, contentId: string) => cellsByPair.get(`${adId}:${contentId}`)?.score;
+
+  // Content columns ordered by their average score across ads, best first
+  const sortedContents = useMemo(() => {
+    if (!matrix) return [];
+    const average = (contentId: string) =>
+      matrix.ads.reduce((sum, ad) => sum + (cellsByPair.get(`${ad.id}:${contentId}`)?.score || 0), 0) / Math.max(1, matrix.ads.length);
+    return [...matrix.contents].sort((a, b) => average(b.id) - average(a.id));
+  }, [matrix, cellsByPair]);
+
+  const sortedAds = useMemo(() => {
+    if (!matrix) return [];
+    const rowScores = (adId: string) => matrix.contents.map(content => cellsByPair.get(`${adId}:${content.id}`)?.score || 0);
+    const sortKey = (adId: string) => {
+      if (sortContentId) return cellsByPair.get(`${adId}:${sortContentId}`)?.score || 0;
+      const scores = rowScores(adId);
+      if (adSort === 'best') return Math.max(0, ...scores);
+      return scores.reduce((sum, score) => sum + score, 0) / Math.max(1, scores.length);
+    };
+
+    if (adSort === 'title' && !sortContentId) {
+      return [...matrix.ads].sort((a, b) => a.title.localeCompare(b.title));
+    }
+    return [...matrix.ads].sort((a, b) => sortKey(b.id) - sortKey(a.id));
+  }, [matrix, cellsByPair, adSort, sortContentId]);
+
+  const isRunning = matrix?.status === 'running';
+  const adTitle = (adId: string) => matrix?.ads.find(ad => ad.id === adId)?.title || adId;
+  const contentTitle = (contentId: string) => matrix?.contents.find(content => content.id === contentId)?.title || contentId;
+
+  return (
+    <div className="flex mt-5 min-h-screen bg-zinc-100">
+      <Sidebar activeMenu="match-matrix" />
+
+      <div className="flex-1 overflow-auto ml-54">
+        <div className="p-8 max-w-6xl mx-auto">
+          <h1 className="text-2xl font-bold mb-2">Ads × Content Match Matrix</h1>
+          <p className="mb-6 text-gray-600">
+            Scores every ad against every content video from their stored embeddings and tags, fused as in contextual analysis.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-4 mb-6">
+            <select
+              value={fusionStrategy}
+              onChange={(e) => setFusionStrategy(e.target.value as FusionStrategy)}
+              disabled={isRunning || isStarting}
+              className="p-2 border border-gray-300 rounded-md bg-white text-sm"
+            >
+              <option value="weighted_sum">Weighted sum</option>
+              <option value="rrf">Reciprocal rank fusion</option>
+              <option value="max_boost">Max with boost</option>
+            </select>
+            <button
+              onClick={handleCompute}
+              disabled={isRunning || isStarting}
+              className={`px-4 py-2 rounded-md text-white ${
+                isRunning || isStarting ? 'bg-gray-400 cursor-not-allowed' : 'bg-black hover:bg-gray-800 cursor-pointer'
+              }`}
+            >
+              {isRunning ? 'Computing...' : matrix ? 'Recompute Matrix' : 'Compute Matrix'}
+            </button>
+            {matrix && matrix.status !== 'running' && (
+              <>
+                <a href="/api/analysis/matrix/export?format=csv" className="text-sm underline">Export CSV</a>
+                <a href="/api/analysis/matrix/export?format=json" className="text-sm underline">Export JSON</a>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12"><LoadingSpinner /></div>
+          ) : !matrix ? (
+            <p className="text-gray-600">No matrix has been computed yet.</p>
+          ) : (
+            <>
+              <div className="mb-4 text-sm text-gray-700">
+                {isRunning
+                  ? `Scoring ads: ${matrix.processedAds} / ${matrix.ads.length}`
+                  : `${matrix.status === 'failed' ? 'Failed' : 'Computed'} ${new Date(matrix.finishedAt || matrix.startedAt).toLocaleString()} with ${matrix.fusion.strategy}`}
+                {matrix.failures.length > 0 && ` (${matrix.failures.length} ads failed)`}
+              </div>
+
+              <div className="flex items-center gap-2 mb-3 text-sm">
+                <label htmlFor="ad-sort" className="text-gray-600">Sort ads by</label>
+                <select
+                  id="ad-sort"
+                  value={sortContentId ? '' : adSort}
+                  onChange={(e) => { setAdSort(e.target.value as AdSort); setSortContentId(null); }}
+                  className="p-1 border border-gray-300 rounded-md bg-white"
+                >
+                  {sortContentId && <option value="">Selected content column</option>}
+                  <option value="best">Best score</option>
+                  <option value="average">Average score</option>
+                  <option value="title">Title</option>
+                </select>
+                <span className="ml-4 text-gray-500">
+                  – not scored: scoring failed for this ad (counted as 0 when sorting)
+                </span>
+              </div>
+
+              <div className="overflow-auto bg-white rounded-lg shadow-md">
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="sticky left-0 bg-white p-2 text-left min-w-48">Ad</th>
+                      {sortedContents.map(content => (
+                        <th
+                          key={content.id}
+                          onClick={() => setSortContentId(content.id)}
+                          title={`Sort ads by ${content.title}`}
+                          className={`p-2 font-normal max-w-24 truncate cursor-pointer ${
+                            sortContentId === content.id ? 'underline font-semibold' : ''
+                          }`}
+                        >
+                          {content.title}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedAds.map(ad => (
+                      <tr key={ad.id}>
+                        <td className="sticky left-0 bg-white p-2 truncate max-w-48" title={ad.title}>{ad.title}</td>
+                        {sortedContents.map(content => {
+                          const score = scoreOf(ad.id, content.id);
+                          if (score === undefined) {
+                            return (
+                              <td
+                                key={content.id}
+                                title={`${ad.title} × ${content.title}: not scored`}
+                                className="w-10 h-8 text-center border border-white bg-red-50 text-gray-400"
+                              >
+                                –
+                              </td>
+                            );
+                          }
+                          return (
+                            <td
+                              key={content.id}
+                              title={`${ad.title} × ${content.title}: ${score.toFixed(3)}`}
+                              className="w-10 h-8 text-center border border-white"
+                              style={{ backgroundColor: cellColor(score), color: score > 0.5 ? 'white' : 'black' }}
+                            >
+                              {score.toFixed(2)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {matrix.status === 'completed' && (
+                <div className="mt-8 bg-white p-4 rounded-lg shadow-md">
+                  <h2 className="text-lg font-semibold mb-1">Inventory Allocation</h2>
+                  <p className="mb-4 text-sm text-gray-600">
+                    Places each ad&apos;s impression budget on the best-matching content, within per-video caps and capacity,
+                    without putting competing brands in the same video.
+                  </p>
+
+                  <div className="flex flex-wrap items-end gap-4 mb-4 text-sm">
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">Capacity per content video</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={contentCapacity}
+                        onChange={(e) => setContentCapacity(Math.max(0, Number(e.target.value) || 0))}
+                        className="w-32 p-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="text-gray-600">Max per ad per video</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={maxPerContent}
+                        onChange={(e) => setMaxPerContent(Math.max(0, Number(e.target.value) || 0))}
+                        className="w-32 p-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 flex-1 min-w-64">
+                      <span className="text-gray-600">Competing brands (one group per line, comma-separated)</span>
+                      <textarea
+                        value={competitorGroupsText}
+                        onChange={(e) => setCompetitorGroupsText(e.target.value)}
+                        placeholder="Leave empty to treat different brands in the same topic as competitors"
+                        rows={2}
+                        className="p-1 border border-gray-300 rounded-md"
+                      />
+                    </label>
+                  </div>
+
+                  <div className="max-h-48 overflow-y-auto mb-4 text-sm">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-left text-gray-600">
+                          <th className="py-1">Ad</th>
+                          <th className="py-1">Impression budget</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {matrix.ads.map(ad => (
+                          <tr key={ad.id}>
+                            <td className="py-1 truncate max-w-xs" title={ad.title}>{ad.title}</td>
+                            <td className="py-1">
+                              <input
+                                type="number"
+                                min={0}
+                                value={adBudgets[ad.id] ?? DEFAULT_AD_BUDGET}
+                                onChange={(e) => setAdBudgets(prev => ({ ...prev, [ad.id]: Math.max(0, Number(e.target.value) || 0) }))}
+                                className="w-28 p-1 border border-gray-300 rounded-md"
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <button
+                    onClick={handleAllocate}
+                    disabled={isAllocating}
+                    className={`px-4 py-2 rounded-md text-white ${
+                      isAllocating ? 'bg-gray-400 cursor-not-allowed' : 'bg-black hover:bg-gray-800 cursor-pointer'
+                    }`}
+                  >
+                    {isAllocating ? 'Allocating...' : 'Allocate'}
+                  </button>
+
+                  {allocation && allocation.matrixId === matrix.id && !isAllocating && (
+                    <div className="mt-6 text-sm">
+                      <p className="mb-3 text-gray-700">
+                        {allocation.totalImpressions} impressions in {allocation.placements.length} placements,
+                        total alignment {allocation.totalAlignment.toFixed(1)}
+                      </p>
+
+                      <table className="w-full mb-4">
+                        <thead>
+                          <tr className="text-left text-gray-600">
+                            <th className="py-1">Ad</th>
+                            <th className="py-1">Content</th>
+                            <th className="py-1">Impressions</th>
+                            <th className="py-1">Score</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {allocation.placements.map(placement => (
+                            <tr key={`${placement.adId}:${placement.contentId}`} className="border-t border-gray-100">
+                              <td className="py-1 truncate max-w-xs">{adTitle(placement.adId)}</td>
+                              <td className="py-1 truncate max-w-xs">{contentTitle(placement.contentId)}</td>
+                              <td className="py-1">{placement.impressions}</td>
+                              <td className="py-1" title={placement.downrankedBy ? `Down-ranked by ${placement.downrankedBy.join(', ')}` : undefined}>
+                                {placement.score.toFixed(3)}{placement.downrankedBy && ' ↓'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+
+                      {allocation.shortfalls.length > 0 && (
+                        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                          <h3 className="font-medium mb-2">Unmet budgets</h3>
+                          <ul className="space-y-1">
+                            {allocation.shortfalls.map(shortfall => (
+                              <li key={shortfall.adId}>
+                                {adTitle(shortfall.adId)}: {shortfall.allocated} of {shortfall.budget} placed
+                                {shortfall.unscored
+                                  ? ' (no scores in the matrix)'
+                                  : ` (blocked by capacity in ${shortfall.blockedBy.contentCapacity}, competitors in ${shortfall.blockedBy.competitor}, low score in ${shortfall.blockedBy.minScore}, brand safety in ${shortfall.blockedBy.brandSafety} videos)`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
-import { AdItemType, ActiveFiltersProps, FilterMenuProps } from '@/types';
+import { AdItemType, ActiveFiltersProps, FilterMenuProps, TagCategory, Taxonomy } from '@/types';
+import { DEFAULT_TAXONOMY, normalizeTaxonomyValue } from '@/utils/taxonomy';
 
 export const ActiveFilters: React.FC<ActiveFiltersProps> = ({
   activeFilters,
@@ -145,8 +146,18 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
   );
 };
 
+// Filter ID and item metadata field for each taxonomy category
+const TAXONOMY_FILTERS: Record<TagCategory, { id: string; field: keyof NonNullable<AdItemType['metadata']> }> = {
+  topic: { id: 'topic_category', field: 'topic_category' },
+  emotions: { id: 'emotions', field: 'emotions' },
+  brands: { id: 'brands', field: 'brands' },
+  age: { id: 'demo_age', field: 'demo_age' },
+  gender: { id: 'demo_gender', field: 'demo_gender' },
+  locations: { id: 'location', field: 'locations' }
+};
+
 // Hook to manage filter state
-export const useFilterState = (adItems: AdItemType[]) => {
+export const useFilterState = (adItems: AdItemType[], taxonomy: Taxonomy = DEFAULT_TAXONOMY) => {
   const [filterOptions, setFilterOptions] = React.useState<{[key: string]: string[]}>({
     topic_category: [],
     emotions: [],
@@ -170,15 +181,11 @@ export const useFilterState = (adItems: AdItemType[]) => {
   const [showFilterMenu, setShowFilterMenu] = React.useState(false);
   const [selectedFilterCategory, setSelectedFilterCategory] = React.useState<string | null>(null);
 
-  // Filter categories
-  const filterCategories = [
-    { id: 'topic_category', label: 'Topic Category' },
-    { id: 'emotions', label: 'Emotions' },
-    { id: 'brands', label: 'Brands' },
-    { id: 'demo_age', label: 'Target Demo: Age' },
-    { id: 'demo_gender', label: 'Target Demo: Gender' },
-    { id: 'location', label: 'Location' },
-  ];
+  // Filter categories, in taxonomy order
+  const filterCategories = taxonomy.categories.map(category => ({
+    id: TAXONOMY_FILTERS[category.id].id,
+    label: category.filterLabel
+  }));
 
   // Helper function to properly capitalize text
   const capitalizeText = (text: string): string => {
@@ -260,100 +267,9 @@ export const useFilterState = (adItems: AdItemType[]) => {
     setSelectedFilterCategory(null);
   };
 
-  // Extract unique filter options from ads items
+  // Closed taxonomy categories offer every allowed value; open ones offer the normalized values found on the items
   React.useEffect(() => {
     if (adItems.length > 0) {
-      const options: {[key: string]: Map<string, string>} = {
-        topic_category: new Map<string, string>(),
-        emotions: new Map<string, string>(),
-        brands: new Map<string, string>(),
-        demo_age: new Map<string, string>(),
-        demo_gender: new Map<string, string>(),
-        location: new Map<string, string>()
-      };
-
-      adItems.forEach(item => {
-        if (item.metadata) {
-          // Extract topic_category
-          if (item.metadata.topic_category) {
-            const topics = item.metadata.topic_category.split(',').map(s => s.trim());
-            topics.forEach((topic: string) => {
-              if (topic) {
-                const lowercaseTopic = topic.toLowerCase();
-                if (!options.topic_category.has(lowercaseTopic)) {
-                  options.topic_category.set(lowercaseTopic, topic);
-                }
-              }
-            });
-          }
-
-          // Extract emotions
-          if (item.metadata.emotions) {
-            const emotions = item.metadata.emotions.split(',').map(e => e.trim());
-            emotions.forEach((emotion: string) => {
-              if (emotion) {
-                const lowercaseEmotion = emotion.toLowerCase();
-                if (!options.emotions.has(lowercaseEmotion)) {
-                  options.emotions.set(lowercaseEmotion, emotion);
-                }
-              }
-            });
-          }
-
-          // Extract brands
-          if (item.metadata.brands) {
-            const brands = item.metadata.brands.split(',').map((b: string) => b.trim());
-            brands.forEach((brand: string) => {
-              if (brand) {
-                const lowercaseBrand = brand.toLowerCase();
-                if (!options.brands.has(lowercaseBrand)) {
-                  options.brands.set(lowercaseBrand, brand);
-                }
-              }
-            });
-          }
-
-          // Extract demo_age
-          if (item.metadata.demo_age) {
-            const ages = item.metadata.demo_age.split(',').map((a: string) => a.trim());
-            ages.forEach((age: string) => {
-              if (age) {
-                const lowercaseAge = age.toLowerCase();
-                if (!options.demo_age.has(lowercaseAge)) {
-                  options.demo_age.set(lowercaseAge, age);
-                }
-              }
-            });
-          }
-
-          // Extract demo_gender
-          if (item.metadata.demo_gender) {
-            const genders = item.metadata.demo_gender.split(',').map((g: string) => g.trim());
-            genders.forEach((gender: string) => {
-              if (gender) {
-                const lowercaseGender = gender.toLowerCase();
-                if (!options.demo_gender.has(lowercaseGender)) {
-                  options.demo_gender.set(lowercaseGender, gender);
-                }
-              }
-            });
-          }
-
-          // Extract locations
-          if (item.metadata.locations) {
-            const locations = item.metadata.locations.split(',').map((l: string) => l.trim());
-            locations.forEach((location: string) => {
-              if (location) {
-                const lowercaseLocation = location.toLowerCase();
-                if (!options.location.has(lowercaseLocation)) {
-                  options.location.set(lowercaseLocation, location);
-                }
-              }
-            });
-          }
-        }
-      });
-
       const sortOptions = (a: string, b: string) => {
         if (a[0].toLowerCase() !== b[0].toLowerCase()) {
           return a.localeCompare(b);
@@ -361,16 +277,29 @@ export const useFilterState = (adItems: AdItemType[]) => {
         return a.length - b.length;
       };
 
-      setFilterOptions({
-        topic_category: Array.from(options.topic_category.values()).sort(sortOptions),
-        emotions: Array.from(options.emotions.values()).sort(sortOptions),
-        brands: Array.from(options.brands.values()).sort(sortOptions),
-        demo_age: Array.from(options.demo_age.values()).sort(sortOptions),
-        demo_gender: Array.from(options.demo_gender.values()).sort(sortOptions),
-        location: Array.from(options.location.values()).sort(sortOptions)
+      const options: {[key: string]: string[]} = {};
+      taxonomy.categories.forEach(category => {
+        const { id, field } = TAXONOMY_FILTERS[category.id];
+        if (!category.open) {
+          options[id] = category.values;
+          return;
+        }
+
+        const values = new Map<string, string>();
+        adItems.forEach(item => {
+          (item.metadata?.[field] || '').split(',').forEach(value => {
+            const normalized = normalizeTaxonomyValue(category, value);
+            if (normalized && !values.has(normalized.toLowerCase())) {
+              values.set(normalized.toLowerCase(), normalized);
+            }
+          });
+        });
+        options[id] = Array.from(values.values()).sort(sortOptions);
       });
+
+      setFilterOptions(options);
     }
-  }, [adItems]);
+  }, [adItems, taxonomy]);
 
   // Apply filters to ads items
   React.useEffect(() => {
@@ -386,33 +315,17 @@ export const useFilterState = (adItems: AdItemType[]) => {
       return Object.entries(activeFilters).every(([category, filters]) => {
         if (filters.length === 0) return true;
 
-        let metadataValue = '';
-        switch (category) {
-          case 'topic_category':
-            metadataValue = item.metadata?.topic_category || '';
-            break;
-          case 'emotions':
-            metadataValue = item.metadata?.emotions || '';
-            break;
-          case 'brands':
-            metadataValue = item.metadata?.brands || '';
-            break;
-          case 'demo_age':
-            metadataValue = item.metadata?.demo_age || '';
-            break;
-          case 'demo_gender':
-            metadataValue = item.metadata?.demo_gender || '';
-            break;
-          case 'location':
-            metadataValue = item.metadata?.locations || '';
-            break;
-        }
+        const taxonomyCategory = taxonomy.categories.find(({ id }) => TAXONOMY_FILTERS[id].id === category);
+        const metadataValue = taxonomyCategory ? item.metadata?.[TAXONOMY_FILTERS[taxonomyCategory.id].field] || '' : '';
 
         if (metadataValue === '' && filters.length > 0) {
           return false;
         }
 
-        const values = metadataValue.split(',').map(v => v.trim());
+        // Compare in taxonomy spelling so synonyms match their value
+        const values = metadataValue.split(',').map(v =>
+          (taxonomyCategory && normalizeTaxonomyValue(taxonomyCategory, v)) || v.trim()
+        );
 
         return filters.some(filter =>
           values.some(value => {
@@ -441,7 +354,7 @@ export const useFilterState = (adItems: AdItemType[]) => {
     });
 
     setFilteredItems(filtered);
-  }, [activeFilters, adItems]);
+  }, [activeFilters, adItems, taxonomy]);
 
   return {
     filterOptions,
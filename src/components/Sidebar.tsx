@@ -23,7 +23,7 @@ const MenuItem: FC<MenuItemProps> = ({ title, href, isActive = false }) => {
 };
 
 type SidebarProps = {
-  activeMenu: 'ads-library' | 'contextual-analysis';
+  activeMenu: 'ads-library' | 'contextual-analysis' | 'match-matrix' | 'campaigns';
 };
 
 const menuConfig = [
@@ -36,6 +36,16 @@ const menuConfig = [
     id: 'contextual-analysis',
     title: 'Contextual Alignment Analysis',
     href: '/contextual-analysis'
+  },
+  {
+    id: 'match-matrix',
+    title: 'Match Matrix',
+    href: '/match-matrix'
+  },
+  {
+    id: 'campaigns',
+    title: 'Campaigns',
+    href: '/campaigns'
   }
 ];
 
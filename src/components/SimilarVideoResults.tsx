@@ -2,18 +2,20 @@ import React, { useState, useEffect } from 'react';
 import Video from './Video';
 import VideoModal from './VideoModal';
 import { fetchVideoDetails } from '@/hooks/apiHooks';
-import { VideoData, SimilarVideoResultsProps, SelectedVideoData } from '@/types';
+import { VideoData, SimilarVideoResultsProps, SelectedVideoData, EmbeddingSearchResult } from '@/types';
 import LoadingSpinner from './LoadingSpinner';
 import { useInView } from 'react-intersection-observer';
+import { useGlobalState } from '@/providers/ReactQueryProvider';
 
 const ITEMS_PER_PAGE = 9;
 
-const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, indexId }) => {
+const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, indexId, sourceVideo }) => {
   const [videoDetails, setVideoDetails] = useState<Record<string, VideoData>>({});
   const [loadingDetails, setLoadingDetails] = useState<boolean>(false);
   const [selectedVideo, setSelectedVideo] = useState<SelectedVideoData | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const { setSelectedAdId } = useGlobalState();
 
   const { ref: loadMoreRef, inView } = useInView({
     threshold: 0.1,
@@ -117,6 +119,25 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
     return { label: "Low", color: "red" };
   };
 
+  // Badge for how well the content audience matches the ad's target demographics
+  const renderAudienceFit = (fit: EmbeddingSearchResult['audienceFit']) => {
+    if (!fit || fit.score === null) return null;
+
+    const color = !fit.overlaps
+      ? 'bg-red-100 text-red-800'
+      : fit.score >= 0.66 ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800';
+    const parts = [
+      fit.age !== null ? `age ${Math.round(fit.age * 100)}%` : null,
+      fit.gender !== null ? (fit.gender > 0 ? 'gender match' : 'gender mismatch') : null
+    ].filter(Boolean);
+
+    return (
+      <span className={`mt-1 inline-block self-start px-2 py-0.5 rounded-full text-xs ${color}`} title={parts.join(', ')}>
+        Audience fit {Math.round(fit.score * 100)}%
+      </span>
+    );
+  };
+
   // Render tags from user_metadata (similar to the main page)
   const renderTags = (videoData: VideoData | undefined) => {
     if (!videoData || !videoData.user_metadata) return null;
@@ -178,6 +199,32 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
 
     if (!videoData || !videoData.hls?.video_url) return;
 
+    // Results are ads: play the source content video with the clicked ad inserted
+    if (sourceVideo) {
+      if (!sourceVideo.hls?.video_url) return;
+      setSelectedAdId(videoId);
+      setSelectedVideo({
+        id: sourceVideo._id,
+        url: sourceVideo.hls.video_url,
+        title: sourceVideo.system_metadata?.filename ||
+          sourceVideo.system_metadata?.video_title ||
+          `Video ${sourceVideo._id}`,
+        score: resultData?.score,
+        textScore: resultData?.textScore,
+        videoScore: resultData?.videoScore,
+        tagScore: resultData?.tagScore,
+        originalSource: resultData?.originalSource as 'TEXT' | 'VIDEO' | 'BOTH',
+        // The search ran from the content video, so its moments are the source side
+        matchedSegments: resultData?.matchedSegments?.map(segment => ({
+          ...segment,
+          source: segment.target,
+          target: segment.source
+        })),
+        metadata: sourceVideo
+      });
+      return;
+    }
+
     const title = videoData.system_metadata?.filename ||
       videoData.system_metadata?.video_title ||
       `Video ${videoId}`;
@@ -189,7 +236,9 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
       score: resultData?.score,
       textScore: resultData?.textScore,
       videoScore: resultData?.videoScore,
+      tagScore: resultData?.tagScore,
       originalSource: resultData?.originalSource as 'TEXT' | 'VIDEO' | 'BOTH',
+      matchedSegments: resultData?.matchedSegments,
       metadata: videoData
     });
   };
@@ -241,6 +290,10 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
                 /* Render actual tags from the fetched video data */
                 renderTags(videoData)
               )}
+              {renderAudienceFit(result.audienceFit)}
+              {result.downrankedBy && (
+                <p className="mt-1 text-xs text-yellow-700">Down-ranked by {result.downrankedBy.join(', ')}</p>
+              )}
             </div>
           );
         })}
@@ -273,8 +326,9 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
           searchScore={selectedVideo.score}
           textScore={selectedVideo.textScore}
           videoScore={selectedVideo.videoScore}
+          tagScore={selectedVideo.tagScore}
           originalSource={selectedVideo.originalSource}
-          contentMetadata={selectedVideo.metadata}
+          matchedSegments={selectedVideo.matchedSegments}
         />
       )}
     </div>
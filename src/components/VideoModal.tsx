@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactPlayer from 'react-player';
 import { useQuery } from '@tanstack/react-query';
-import { generateChapters, fetchVideoDetails } from '@/hooks/apiHooks';
+import { generateChapters, fetchVideoDetails, fetchMatchExplanation } from '@/hooks/apiHooks';
 import LoadingSpinner from './LoadingSpinner';
 import { useGlobalState } from '@/providers/ReactQueryProvider';
 import { VideoModalProps, ChapterWithMetadata, Chapter } from '@/types';
@@ -15,8 +15,9 @@ const VideoModal: React.FC<VideoModalProps> = ({
   searchScore,
   textScore,
   videoScore,
+  tagScore,
   originalSource,
-  contentMetadata
+  matchedSegments
 }) => {
   const playerRef = useRef<ReactPlayer>(null);
   const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
@@ -125,6 +126,18 @@ const VideoModal: React.FC<VideoModalProps> = ({
     }
   };
 
+  // Jump to a content moment that matched the ad
+  const handleMatchedSegmentClick = (startTime: number) => {
+    if (playbackSequence === 'ad') return;
+
+    setSelectedChapter(null);
+    setShowChapterInfo(false);
+    if (playerRef.current) {
+      playerRef.current.seekTo(startTime, 'seconds');
+    }
+    setIsPlaying(true);
+  };
+
   // Ad ended handler
   const handleAdEnded = () => {
     if (selectedChapter === null || !chaptersData) return;
@@ -151,269 +164,17 @@ const VideoModal: React.FC<VideoModalProps> = ({
     return `${(score * 100).toFixed(0)}`;
   };
 
-  // Helper function to properly capitalize text
-  const capitalizeText = (text: string): string => {
-    return text
-      .toLowerCase()
-      .split(' ')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
-  // Generate explanation text based on search results
-  const getExplanationText = (): string => {
-    if (!originalSource) return "This content was found in the search results.";
-    const adMetadata = adVideoDetail?.user_metadata;
-
-    // Tag extraction function - unified extraction logic considering field name differences
-    const extractTagsFromMetadata = (metadata: Record<string, unknown> | undefined) => {
-      if (!metadata) {
-        return [];
-      }
-
-      const allTags: string[] = [];
-      const fieldMappings: Record<string, string[]> = {
-        sector: ['sector', 'topic_category'],
-        emotions: ['emotions'],
-        brands: ['brands'],
-        locations: ['locations', 'location'],
-        gender: ['demographics_gender', 'demo_gender'],
-        age: ['demographics_age', 'demo_age']
-      };
-
-
-      // demographics unified field processing (when gender and age are together)
-      if (metadata.demographics && typeof metadata.demographics === 'string') {
-        const demographicsValue = metadata.demographics as string;
-
-        // Process comma-separated values
-        const demoParts = demographicsValue.split(',').map(part => part.trim());
-
-        // Gender keywords
-        const genderKeywords = ['male', 'female', 'men', 'women'];
-
-        // Age pattern (number-number format)
-        const agePattern = /^\d+-\d+$/;
-
-        demoParts.forEach(part => {
-          const lowerPart = part.toLowerCase();
-
-          if (genderKeywords.some(keyword => lowerPart.includes(keyword))) {
-            allTags.push(part);
-          }
-          else if (agePattern.test(part)) {
-            allTags.push(part);
-          }
-          else {
-            allTags.push(part);
-          }
-        });
-      }
-
-      Object.values(fieldMappings).forEach(fields => {
-        fields.forEach(field => {
-          const value = metadata[field];
-          if (value && typeof value === 'string') {
-            const tags = value.split(',').map((tag: string) => tag.trim()).filter((tag: string) => tag.length > 0);
-            tags.forEach(tag => allTags.push(tag));
-          } else {
-          }
-        });
-      });
-
-      return allTags;
-    };
-
-    const adTags = extractTagsFromMetadata(adMetadata);
-    const contentTags = extractTagsFromMetadata(contentMetadata?.user_metadata);
-
-    // Find common tags (case-insensitive)
-    const commonTags: string[] = [];
-
-    adTags.forEach(adTag => {
-      const normalizedAdTag = adTag.toLowerCase();
-      const matchingContentTag = contentTags.find(contentTag =>
-        contentTag.toLowerCase() === normalizedAdTag
-      );
-
-      if (matchingContentTag) {
-        commonTags.push(adTag);
-      }
-    });
-
-
-    // Create a mapping from tag value to category
-    const tagCategories = new Map<string, string>();
-
-    // Function to assign categories to tags
-    const assignCategoryToTags = (metadata: Record<string, unknown> | undefined) => {
-      if (!metadata) return;
-
-      if (metadata.demographics && typeof metadata.demographics === 'string') {
-        const demographicsValue = metadata.demographics as string;
-        const demoParts = demographicsValue.split(',').map(part => part.trim());
-
-        const genderKeywords = ['male', 'female', 'men', 'women'];
-
-        const agePattern = /^\d+-\d+$/;
-
-        demoParts.forEach(part => {
-          const lowerPart = part.toLowerCase();
-
-          if (genderKeywords.some(keyword => lowerPart.includes(keyword))) {
-            tagCategories.set(lowerPart, 'gender');
-          }
-          else if (agePattern.test(part)) {
-            tagCategories.set(lowerPart, 'age');
-          }
-        });
-      }
-
-      ['sector', 'topic_category'].forEach(field => {
-        const value = metadata[field];
-        if (value && typeof value === 'string') {
-          value.split(',').forEach((tag: string) => {
-            const trimmedTag = tag.trim();
-            if (trimmedTag) {
-              tagCategories.set(trimmedTag.toLowerCase(), 'topic');
-            }
-          });
-        }
-      });
-
-      // 감정 (Emotions)
-      const emotions = metadata.emotions;
-      if (emotions && typeof emotions === 'string') {
-        emotions.split(',').forEach((tag: string) => {
-          const trimmedTag = tag.trim();
-          if (trimmedTag) {
-            tagCategories.set(trimmedTag.toLowerCase(), 'emotions');
-          }
-        });
-      }
-
-      const brands = metadata.brands;
-      if (brands && typeof brands === 'string') {
-        brands.split(',').forEach((tag: string) => {
-          const trimmedTag = tag.trim();
-          if (trimmedTag) {
-            tagCategories.set(trimmedTag.toLowerCase(), 'brands');
-          }
-        });
-      }
-
-      ['locations', 'location'].forEach(field => {
-        const value = metadata[field];
-        if (value && typeof value === 'string') {
-          value.split(',').forEach((tag: string) => {
-            const trimmedTag = tag.trim();
-            if (trimmedTag) {
-              tagCategories.set(trimmedTag.toLowerCase(), 'location');
-            }
-          });
-        }
-      });
-
-      ['demographics_gender', 'demo_gender'].forEach(field => {
-        const value = metadata[field];
-        if (value && typeof value === 'string') {
-          value.split(',').forEach((tag: string) => {
-            const trimmedTag = tag.trim();
-            if (trimmedTag) {
-              tagCategories.set(trimmedTag.toLowerCase(), 'gender');
-            }
-          });
-        }
-      });
-
-      ['demographics_age', 'demo_age'].forEach(field => {
-        const value = metadata[field];
-        if (value && typeof value === 'string') {
-          value.split(',').forEach((tag: string) => {
-            const trimmedTag = tag.trim();
-            if (trimmedTag) {
-              tagCategories.set(trimmedTag.toLowerCase(), 'age');
-            }
-          });
-        }
-      });
-    };
-
-    assignCategoryToTags(adMetadata);
-    assignCategoryToTags(contentMetadata?.user_metadata);
-
-
-    // Sort common tags according to the specified order
-    const sortedCommonTags = [...commonTags].sort((a, b) => {
-      const aLower = a.toLowerCase();
-      const bLower = b.toLowerCase();
-
-      const categoryA = tagCategories.get(aLower) || '';
-      const categoryB = tagCategories.get(bLower) || '';
-
-
-      // Define order priority
-      const categoryOrder = {
-        'topic': 1,
-        'emotions': 2,
-        'brands': 3,
-        'location': 4,
-        'gender': 5,
-        'age': 6
-      };
-
-      // Get priority or default to high number if category not found
-      const priorityA = categoryOrder[categoryA as keyof typeof categoryOrder] || 99;
-      const priorityB = categoryOrder[categoryB as keyof typeof categoryOrder] || 99;
-
-
-      return priorityA - priorityB;
-    });
-
-
-    let explanation = "";
-
-    switch (originalSource) {
-      case "BOTH":
-        explanation = `it shares both visual and thematic elements with the selected ad.`;
-        if (commonTags.length > 0) {
-          const capitalizedTags = sortedCommonTags.slice(0, 3).map(tag => capitalizeText(tag));
-          explanation += ` They share common tags: `;
-          explanation += capitalizedTags.map(tag =>
-            `<span class="inline-block bg-gray-100 border rounded-full px-2 py-0.5 text-xs mx-0.5">${tag}</span>`
-          ).join("");
-          if (commonTags.length > 3) {
-            explanation += '...';
-          }
-        }
-        break;
-      case "TEXT":
-        explanation = `it shares thematic elements and keywords with the selected ad.`;
-        if (commonTags.length > 0) {
-          const capitalizedTags = sortedCommonTags.slice(0, 3).map(tag => capitalizeText(tag));
-          explanation += ` They share common tags: ${capitalizedTags.join(", ")}${commonTags.length > 3 ? '...' : ''}.`;
-        } else {
-        }
-        break;
-      case "VIDEO":
-        explanation = `it shares visual elements and style with the selected ad.`;
-        if (commonTags.length > 0) {
-          const capitalizedTags = sortedCommonTags.slice(0, 3).map(tag => capitalizeText(tag));
-          explanation += ` They share common tags: `;
-          explanation += capitalizedTags.map(tag =>
-            `<span class="inline-block bg-gray-100 border rounded-full px-2 py-0.5 text-xs mx-0.5">${tag}</span>`
-          ).join("");
-          if (commonTags.length > 3) {
-            explanation += '...';
-          }
-        }
-        break;
-      default:
-        explanation = `it was found in the search results.`;
-    }
-
-    return explanation;
-  };
+  // Scores, tags and moments computed by the server, so they read consistently with exports and reports.
+  // The scores passed in from the analysis page are shown until the explanation arrives.
+  const { data: explanation } = useQuery({
+    queryKey: ["matchExplanation", selectedAdId, videoId],
+    queryFn: () => fetchMatchExplanation(selectedAdId!, videoId),
+    enabled: isOpen && !!selectedAdId && !!videoId && !!originalSource
+  });
+  const displayedTextScore = explanation?.scores.textScore ?? textScore;
+  const displayedVideoScore = explanation?.scores.videoScore ?? videoScore;
+  const displayedTagScore = explanation?.scores.tagScore ?? tagScore;
+  const displayedSegments = explanation?.matchedSegments ?? matchedSegments;
 
   if (!isOpen) return null;
 
@@ -450,18 +211,26 @@ const VideoModal: React.FC<VideoModalProps> = ({
               <div className="bg-gray-100 rounded-[45.60px] py-2 px-6 w-full max-w-[95%]">
                 {searchScore !== undefined && (
                   <div className="mt-1 text-md flex flex-wrap gap-x-4">
-                      {videoScore !== undefined && videoScore > 0 && (
-                      <span>Video Match: {formatScore(videoScore)}</span>
+                      {displayedVideoScore !== undefined && displayedVideoScore > 0 && (
+                      <span>Video Match: {formatScore(displayedVideoScore)}</span>
                     )}
-                    {textScore !== undefined && textScore > 0 && (
-                      <span>Keyword Match: {formatScore(textScore)}</span>
+                    {displayedTextScore !== undefined && displayedTextScore > 0 && (
+                      <span>Keyword Match: {formatScore(displayedTextScore)}</span>
+                    )}
+                    {displayedTagScore !== undefined && displayedTagScore > 0 && (
+                      <span>Tag Match: {formatScore(displayedTagScore)}</span>
                     )}
                   </div>
                 )}
                 <p className="text-md font-medium">
                   <span className="mr-1">This content was recommended as</span>
-                  <span dangerouslySetInnerHTML={{ __html: getExplanationText() }} />
+                  <span>{explanation?.summary || 'it was found in the search results.'}</span>
                 </p>
+                {explanation && (explanation.demographics.gender.shared.length > 0 || explanation.demographics.age.shared.length > 0) && (
+                  <p className="text-sm text-gray-600">
+                    Shared audience: {[...explanation.demographics.gender.shared, ...explanation.demographics.age.shared].join(', ')}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -505,6 +274,28 @@ const VideoModal: React.FC<VideoModalProps> = ({
               )}
             </div>
 
+            {/* matched moments between the ad and this content */}
+            {displayedSegments && displayedSegments.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-md font-medium mb-2">Matched Moments</h4>
+                <div className="flex flex-wrap gap-2">
+                  {displayedSegments.map((segment, index) => (
+                    <button
+                      key={`matched-${index}`}
+                      onClick={() => handleMatchedSegmentClick(segment.target.start_time)}
+                      disabled={playbackSequence === 'ad'}
+                      className={`border rounded-full px-3 py-1 text-xs ${
+                        playbackSequence === 'ad' ? 'cursor-not-allowed text-gray-400' : 'cursor-pointer hover:bg-gray-100'
+                      }`}
+                      title={`Ad ${formatTime(segment.source.start_time)}-${formatTime(segment.source.end_time)} (${segment.option})`}
+                    >
+                      {formatTime(segment.target.start_time)}-{formatTime(segment.target.end_time)} · {formatScore(segment.score)}%
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* chapter info section */}
             {showChapterInfo && selectedChapter !== null && chaptersData?.chapters && (
               <div className="mt-4 mb-4 rounded-[45.60px] p-4 relative" style={{ backgroundColor: "#FDE3AE" }}>
@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import LoadingSpinner from './LoadingSpinner';
 import { VideoUploaderProps, UploadingFile } from '@/types';
+import { fetchTaxonomy, parseHashtags } from '@/hooks/apiHooks';
+import { DEFAULT_TAXONOMY } from '@/utils/taxonomy';
 
 const MAX_FILES = 10; // Maximum number of files to upload at once
 
@@ -13,6 +16,11 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ indexId, onUploadComplete
   const [totalDuration, setTotalDuration] = useState(0);
   const [showThumbnailView, setShowThumbnailView] = useState(false);
 
+  const { data: taxonomy = DEFAULT_TAXONOMY } = useQuery({
+    queryKey: ['taxonomy'],
+    queryFn: fetchTaxonomy,
+  });
+
   // Check indexing status periodically
   useEffect(() => {
     if (!files.some(file => file.status === 'indexing')) {
@@ -453,7 +461,7 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ indexId, onUploadComplete
 
       // 2. Parse hashtags and update video metadata
       if (metadataResult.data) {
-        const metadata = parseHashtags(metadataResult.data);
+        const metadata = parseHashtags(metadataResult.data, taxonomy);
         const metadataUpdated = await updateVideoMetadata(videoId, indexId, metadata);
 
         // Make sure we don't proceed to embeddings storage if metadata update fails
@@ -524,85 +532,6 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ indexId, onUploadComplete
     }
   };
 
-  // Helper functions borrowed from apiHooks.ts
-  const parseHashtags = (hashtagText: string): Record<string, string> => {
-    // This implementation should mirror the one in apiHooks.ts
-    const metadata: Record<string, string> = {
-      source: '',
-      sector: '',
-      emotions: '',
-      brands: '',
-      locations: '',
-      demographics: ''
-    };
-
-    // Clean text and extract hashtags
-    const cleanText = hashtagText.replace(/\n/g, ' ');
-    const hashtags = cleanText.split(/\s+/).filter(tag => tag.startsWith('#'));
-
-    // Categories for classification
-    const categoryTags: Record<string, string[]> = {
-      demographics: [],
-      sector: [],
-      emotions: [],
-      locations: [],
-      brands: []
-    };
-
-    // Category keywords (lowercase)
-    const demographicsKeywords = ['male', 'female', '18-25', '25-34', '35-44', '45-54', '55+'];
-    const sectorKeywords = ['beauty', 'fashion', 'tech', 'travel', 'cpg', 'food', 'bev', 'retail'];
-    const emotionKeywords = ['happy', 'positive', 'happypositive', 'happy/positive', 'exciting', 'relaxing', 'inspiring', 'serious', 'festive', 'calm', 'determined'];
-    const locationKeywords = ['seoul', 'dubai', 'doha', 'newyork', 'new york', 'paris', 'tokyo', 'london', 'berlin', 'lasvegas', 'las vegas', 'france', 'korea', 'qatar', 'uae', 'usa', 'bocachica', 'bocachicabeach', 'marathon'];
-    const brandKeywords = ['fentybeauty', 'adidas', 'nike', 'spacex', 'apple', 'microsoft', 'google', 'amazon', 'ferrari', 'heineken', 'redbullracing', 'redbull', 'sailgp', 'fifaworldcup', 'fifa', 'tourdefrance', 'nttdata', 'oracle'];
-
-    // Classify hashtags
-    for (const tag of hashtags) {
-      const cleanTag = tag.slice(1).toLowerCase();
-
-      if (demographicsKeywords.includes(cleanTag)) {
-        categoryTags.demographics.push(cleanTag);
-      } else if (sectorKeywords.includes(cleanTag)) {
-        categoryTags.sector.push(cleanTag);
-      } else if (emotionKeywords.includes(cleanTag)) {
-        categoryTags.emotions.push(cleanTag);
-      } else if (locationKeywords.includes(cleanTag)) {
-        categoryTags.locations.push(cleanTag);
-      } else if (brandKeywords.includes(cleanTag)) {
-        categoryTags.brands.push(cleanTag);
-      }
-    }
-
-    // Handle unclassified tags
-    const unclassifiedTags = hashtags.filter(tag => {
-      const cleanTag = tag.slice(1).toLowerCase();
-      return !demographicsKeywords.includes(cleanTag) &&
-             !sectorKeywords.includes(cleanTag) &&
-             !emotionKeywords.includes(cleanTag) &&
-             !locationKeywords.includes(cleanTag) &&
-             !brandKeywords.includes(cleanTag);
-    });
-
-    // Assign unclassified tags if needed
-    if (unclassifiedTags.length > 0 && categoryTags.locations.length === 0) {
-      categoryTags.locations.push(unclassifiedTags[0].slice(1).toLowerCase());
-      unclassifiedTags.shift();
-    }
-
-    if (unclassifiedTags.length > 0 && categoryTags.brands.length === 0) {
-      categoryTags.brands.push(unclassifiedTags[0].slice(1).toLowerCase());
-    }
-
-    // Convert to metadata object
-    for (const category in categoryTags) {
-      if (categoryTags[category as keyof typeof categoryTags].length > 0) {
-        metadata[category] = categoryTags[category as keyof typeof categoryTags].join(', ');
-      }
-    }
-
-    return metadata;
-  };
-
   const updateVideoMetadata = async (videoId: string, indexId: string, metadata: Record<string, string>): Promise<boolean> => {
     try {
       // Transform metadata to API format
@@ -636,50 +565,11 @@ const VideoUploader: React.FC<VideoUploaderProps> = ({ indexId, onUploadComplete
 
   const getAndStoreEmbeddings = async (indexId: string, videoId: string) => {
     try {
-      // Fetch video details with embedding
-      const videoDetails = await fetch(`/api/videos/${videoId}?indexId=${indexId}&embed=true`).then(res => res.json());
-
-      if (!videoDetails || !videoDetails.embedding) {
-        return { success: false, message: 'No embedding data found' };
-      }
-
-      const embedding = videoDetails.embedding;
-
-      // Get filename and title
-      let filename = '';
-      let videoTitle = '';
-
-      if (videoDetails.system_metadata) {
-        filename = videoDetails.system_metadata.filename || '';
-        videoTitle = videoDetails.system_metadata.video_title || '';
-      }
-
-      // Fallbacks if data is missing
-      if (!filename) {
-        filename = `${videoId}.mp4`;
-      }
-
-      if (!videoTitle && filename) {
-        videoTitle = filename.split('.')[0];
-      }
-
-      // Store in Pinecone
-      const response = await fetch('/api/vectors/store', {
+      // The server fetches the embedding from Twelve Labs and stores it
+      const response = await fetch('/api/vectors/ingest', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          videoId,
-          videoName: filename,
-          embedding: {
-            ...embedding,
-            system_metadata: {
-              ...(videoDetails.system_metadata || {}),
-              filename: filename,
-              video_title: videoTitle
-            }
-          },
-          indexId,
-        }),
+        body: JSON.stringify({ indexId, videoId }),
       });
 
       if (!response.ok) {
@@ -1,4 +1,6 @@
-import { IndexResponse, PaginatedResponse, ProcessingStatusResponse, VideoDetailWithEmbedding, SearchPageInfo, SearchResult, EmbeddingResponse, EmbeddingSearchResult, VideoData, ChaptersData, IndexingTask, EmbeddingCheckResult } from '@/types';
+import { IndexResponse, PaginatedResponse, ProcessingStatusResponse, SearchPageInfo, SearchResult, EmbeddingResponse, EmbeddingSearchResult, VideoData, ChaptersData, IndexingTask, EmbeddingCheckResult, VectorResetOptions, VectorResetResponse, EmbeddingStatusResponse, StaleVectorsResponse, VectorJob, ReconcileResponse, FusionOptions, FusionResponse, EmbeddingSearchTarget, VideoSearchAggregation, VideoToVideoSearchResponse, ContentToAdsResponse, MatchMatrix, BrandSafetyRule, BrandSafetyResponse, AnalysisDirection, MatchExplanation, AnalysisRun, AnalysisRunSummary, AnalysisRunDiff, Campaign, CampaignAnalysis, RerankOptions, RerankResponse, AdBreakCandidate, AdBreakPlan, ChapterWithMetadata, AllocationRequest, AllocationPlan, Taxonomy } from '@/types';
+import { DEFAULT_TAXONOMY, parseTaxonomyTags } from '@/utils/taxonomy';
+import { TAG_CATEGORIES, TAG_CATEGORY_FIELDS } from '@/utils/videoTags';
 
 export const fetchIndex = async (indexId: string): Promise<IndexResponse> => {
   const response = await fetch(`/api/indexes/${indexId}`);
@@ -132,13 +134,11 @@ export const checkProcessingStatus = async (
 };
 
 // 벡터 인덱스 존재 여부 확인
-export const checkVectorExists = async (videoId: string, indexId?: string): Promise<boolean> => {
+export const checkVectorExists = async (videoId: string, indexId: string): Promise<boolean> => {
   try {
     const url = new URL('/api/vectors/exists', window.location.origin);
     url.searchParams.append('video_id', videoId);
-    if (indexId) {
-      url.searchParams.append('index_id', indexId);
-    }
+    url.searchParams.append('index_id', indexId);
 
     const response = await fetch(url.toString());
 
@@ -156,65 +156,65 @@ export const checkVectorExists = async (videoId: string, indexId?: string): Prom
   }
 };
 
-export const getAndStoreEmbeddings = async (indexId: string, videoId: string) => {
+// 인덱스 전체의 임베딩 상태를 한 번에 확인
+export const fetchEmbeddingStatuses = async (
+  indexId: string,
+  videoIds?: string[]
+): Promise<EmbeddingStatusResponse> => {
+  const response = await fetch('/api/vectors/status', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ indexId, videoIds }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch embedding statuses: ${errorText}`);
+  }
+
+  return response.json();
+};
+
+// force skips the existence check, e.g. to complete partial or stale-model embeddings
+export const getAndStoreEmbeddings = async (indexId: string, videoId: string, force: boolean = false) => {
   try {
     // First check if we already have embeddings stored for this video
-    try {
-      const existsResponse = await fetch(`/api/vectors/exists?video_id=${videoId}&index_id=${indexId}`);
-      if (existsResponse.ok) {
-        const existsData = await existsResponse.json();
-        if (existsData.exists) {
-          return { success: true, message: 'Embeddings already exist' };
+    if (!force) {
+      try {
+        const existsResponse = await fetch(`/api/vectors/exists?video_id=${videoId}&index_id=${indexId}`);
+        if (existsResponse.ok) {
+          const existsData = await existsResponse.json();
+          if (existsData.exists) {
+            return { success: true, message: 'Embeddings already exist' };
+          }
         }
+      } catch (checkError) {
+        console.warn(`⚠️ Error checking if embeddings exist, will proceed with generation:`, checkError);
       }
-    } catch (checkError) {
-      console.warn(`⚠️ Error checking if embeddings exist, will proceed with generation:`, checkError);
     }
 
     // Add delay to ensure video data is ready at Twelve Labs
     await new Promise(resolve => setTimeout(resolve, 5000));
 
-    // Fetch video details with embedding
-    const response = await fetch(`/api/videos/${videoId}?indexId=${indexId}&embed=true`);
+    // The server fetches, validates and stores the embeddings itself
+    let response = await requestEmbeddingIngest(indexId, videoId);
+
+    // If we get a 404 or 400, the video might not be fully processed yet, wait longer
+    if (response.status === 404 || response.status === 400) {
+      await new Promise(resolve => setTimeout(resolve, 10000));
+      response = await requestEmbeddingIngest(indexId, videoId);
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`❌ Failed to fetch video details with embedding: ${errorText}`);
-
-      // If we get a 404 or 400, the video might not be fully processed yet, wait longer
-      if (response.status === 404 || response.status === 400) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-
-        // Try again after waiting
-        const retryResponse = await fetch(`/api/videos/${videoId}?indexId=${indexId}&embed=true`);
-        if (!retryResponse.ok) {
-          const retryErrorText = await retryResponse.text();
-          console.error(`❌ Retry failed to fetch video details: ${retryErrorText}`);
-          return { success: false, message: `API error on retry: ${retryResponse.status} - ${retryErrorText}` };
-        }
-
-        const videoDetails = await retryResponse.json();
-        if (!videoDetails || !videoDetails.embedding) {
-          console.error(`❌ No embedding data found for video ${videoId} after retry`);
-          return { success: false, message: 'No embedding data found after retry' };
-        }
-
-        // Continue with the retry response data
-        return await processAndStoreEmbedding(videoDetails, videoId, indexId);
-      }
-
+      console.error(`❌ Failed to ingest embeddings for video ${videoId}: ${errorText}`);
       return { success: false, message: `API error: ${response.status} - ${errorText}` };
     }
 
-    const videoDetails = await response.json();
-
-    // Check specifically if the embedding property exists and is not null/undefined
-    if (!videoDetails || !videoDetails.embedding) {
-      console.error(`❌ No embedding data found for video ${videoId}`);
-      return { success: false, message: 'No embedding data found' };
-    }
-
-    return await processAndStoreEmbedding(videoDetails, videoId, indexId);
+    const result = await response.json();
+    return { success: true, ...result };
   } catch (error) {
     console.error(`❌ Error in getAndStoreEmbeddings for video ${videoId}:`, error);
     return {
@@ -224,92 +224,14 @@ export const getAndStoreEmbeddings = async (indexId: string, videoId: string) =>
   }
 };
 
-// Helper function to process and store embedding data
-const processAndStoreEmbedding = async (videoDetails: VideoDetailWithEmbedding, videoId: string, indexId: string) => {
-  try {
-    const embedding = videoDetails.embedding;
-
-    // Check if the embedding has segments
-    if (!embedding.video_embedding || !embedding.video_embedding.segments || embedding.video_embedding.segments.length === 0) {
-      console.error(`Invalid embedding structure for video ${videoId} - missing segments`);
-      return { success: false, message: 'Invalid embedding structure - missing segments' };
-    }
-
-    // Get proper filename and title from system_metadata
-    let filename = '';
-    let videoTitle = '';
-
-    if (videoDetails.system_metadata) {
-      if (videoDetails.system_metadata.filename) {
-        filename = videoDetails.system_metadata.filename;
-      }
-      if (videoDetails.system_metadata.video_title) {
-        videoTitle = videoDetails.system_metadata.video_title;
-      }
-    }
-
-    // If filename is not found, use videoId as fallback
-    if (!filename) {
-      filename = `${videoId}.mp4`;
-    }
-
-    // If no video title, extract from filename (remove extension)
-    if (!videoTitle && filename) {
-      videoTitle = filename.split('.')[0];
-    }
-
-    // Test Pinecone connection before attempting to store
-    try {
-      const pineconeTestResponse = await fetch('/api/vectors/test-connection', {
-        method: 'GET'
-      });
-
-      if (!pineconeTestResponse.ok) {
-        console.error(`❌ Pinecone connection test failed. Status: ${pineconeTestResponse.status}`);
-        return { success: false, message: 'Pinecone connection test failed' };
-      }
-
-    } catch (connectionError) {
-      console.error(`❌ Error testing Pinecone connection:`, connectionError);
-    }
-
-    // Store the embeddings in Pinecone
-    const storeResponse = await fetch('/api/vectors/store', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        videoId,
-        videoName: filename, // Use the filename for vector ID generation
-        embedding: {
-          ...embedding,
-          // Ensure system_metadata has the correct title and filename
-          system_metadata: {
-            ...(videoDetails.system_metadata || {}),
-            filename: filename,
-            video_title: videoTitle
-          }
-        },
-        indexId,
-      }),
-    });
-
-    if (!storeResponse.ok) {
-      const errorText = await storeResponse.text();
-      console.error(`Failed to store embedding. Status: ${storeResponse.status}. Error: ${errorText}`);
-      return { success: false, message: `Failed to store embedding: ${storeResponse.statusText}` };
-    }
-
-    const result = await storeResponse.json();
-    return { success: true, ...result };
-  } catch (error) {
-    console.error(`Error in processAndStoreEmbedding for video ${videoId}:`, error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
+const requestEmbeddingIngest = (indexId: string, videoId: string) => {
+  return fetch('/api/vectors/ingest', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ indexId, videoId }),
+  });
 };
 
 // custom metadata generation
@@ -330,10 +252,8 @@ export const generateMetadata = async (videoId: string): Promise<string> => {
   }
 };
 
-// parse hashtags and create metadata object
-export const parseHashtags = (hashtagText: string): Record<string, string> => {
-
-  // extract metadata from hashtag string
+// parse generated hashtags into a metadata object, keeping only values the taxonomy allows
+export const parseHashtags = (hashtagText: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): Record<string, string> => {
   const metadata: Record<string, string> = {
     source: '',
     sector: '',
@@ -344,184 +264,13 @@ export const parseHashtags = (hashtagText: string): Record<string, string> => {
     demographics_age: ''
   };
 
-  // handle new format (labeled format)
-  // check the label and extract the metadata directly
-  if (hashtagText.includes('Demographics Gender:') ||
-      hashtagText.includes('Demographics Age:') ||
-      hashtagText.includes('Topic Category:') ||
-      hashtagText.includes('Emotions:') ||
-      hashtagText.includes('Location:') ||
-      hashtagText.includes('Brands:') ||
-      hashtagText.includes('Gender:') ||
-      hashtagText.includes('Age:') ||
-      hashtagText.includes('Topic:')) {
-
-    // split each line
-    const lines = hashtagText.split('\n');
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      // extract data according to each label (support both new and old labels)
-      if (trimmedLine.startsWith('Demographics Gender:')) {
-        metadata.demographics_gender = trimmedLine.substring('Demographics Gender:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Gender:')) {
-        metadata.demographics_gender = trimmedLine.substring('Gender:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Demographics Age:')) {
-        metadata.demographics_age = trimmedLine.substring('Demographics Age:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Age:')) {
-        metadata.demographics_age = trimmedLine.substring('Age:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Topic Category:')) {
-        metadata.sector = trimmedLine.substring('Topic Category:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Topic:')) {
-        metadata.sector = trimmedLine.substring('Topic:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Emotions:')) {
-        metadata.emotions = trimmedLine.substring('Emotions:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Location:')) {
-        metadata.locations = trimmedLine.substring('Location:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Brands:')) {
-        metadata.brands = trimmedLine.substring('Brands:'.length).trim();
-      }
-    }
-
-    // for backward compatibility, set demographics field
-    if (metadata.demographics_gender || metadata.demographics_age) {
-      const demographics = [];
-      if (metadata.demographics_gender) demographics.push(metadata.demographics_gender);
-      if (metadata.demographics_age) demographics.push(metadata.demographics_age);
-      metadata.demographics = demographics.join(', ');
-    }
-
-    return metadata;
-  }
-
-  // handle old hashtag format (backward compatibility)
-  // try to extract category from each hashtag
-  // replace newline characters with spaces for consistent splitting
-  const cleanText = hashtagText.replace(/\n/g, ' ');
-  const hashtags = cleanText.split(/\s+/).filter(tag => tag.startsWith('#'));
-
-  // object to collect tags for each category
-  const categoryTags: Record<string, string[]> = {
-    demographics_gender: [],
-    demographics_age: [],
-    sector: [],
-    emotions: [],
-    locations: [],
-    brands: []
-  };
-
-  // keywords for each category - match the values defined in route.ts
-  // Demographics Gender: Male, Female
-  const demographicsGenderKeywords = ['male', 'female', 'men', 'women'];
-
-  // Demographics Age: 18-25, 25-34, 35-44, 45-54, 55+
-  const demographicsAgeKeywords = ['18-25', '25-34', '35-44', '45-54', '55+'];
-
-  // Sector: Beauty, Fashion, Tech, Travel, CPG, Food & Bev, Retail
-  const sectorKeywords = ['beauty', 'fashion', 'tech', 'travel', 'cpg', 'food', 'bev', 'retail', 'food&bev'];
-
-  // Emotion: happy/positive, exciting, relaxing, inspiring, serious, festive, calm
-  const emotionKeywords = [
-    'happy', 'positive', 'happypositive', 'happy/positive',
-    'exciting', 'relaxing', 'inspiring', 'serious', 'festive', 'calm', 'determined'
-  ];
-
-  // specific location keywords - defined in route.ts as "any real-world location"
-  const locationKeywords = [
-    'seoul', 'dubai', 'doha', 'newyork', 'new york', 'paris', 'tokyo', 'london', 'berlin',
-    'lasvegas', 'las vegas', 'france', 'korea', 'qatar', 'uae', 'usa', 'bocachica',
-    'bocachicabeach', 'marathon'
-  ];
-
-  // specific brand keywords - defined in route.ts as "any mentioned brands in the input"
-  const brandKeywords = [
-    'fentybeauty', 'adidas', 'nike', 'spacex', 'apple', 'microsoft', 'google', 'amazon',
-    'ferrari', 'heineken', 'redbullracing', 'redbull', 'sailgp', 'fifaworldcup', 'fifa',
-    'tourdefrance', 'nttdata', 'oracle', 'maybelline'
-  ];
-
-  // analyze which category the generated hashtags belong to
-
-  for (const tag of hashtags) {
-    const cleanTag = tag.slice(1).toLowerCase(); // remove # and convert to lowercase
-
-    // check demographics gender
-    if (demographicsGenderKeywords.includes(cleanTag)) {
-      categoryTags.demographics_gender.push(cleanTag);
-      continue;
-    }
-
-    // check demographics age
-    if (demographicsAgeKeywords.includes(cleanTag)) {
-      categoryTags.demographics_age.push(cleanTag);
-      continue;
-    }
-
-    // check sector
-    if (sectorKeywords.includes(cleanTag)) {
-      categoryTags.sector.push(cleanTag);
-      continue;
-    }
-
-    // check emotion
-    if (emotionKeywords.includes(cleanTag)) {
-      categoryTags.emotions.push(cleanTag);
-      continue;
+  const tags = parseTaxonomyTags(hashtagText, taxonomy);
+  TAG_CATEGORIES.forEach(category => {
+    if (tags[category].length > 0) {
+      metadata[TAG_CATEGORY_FIELDS[category][0]] = tags[category].join(', ');
     }
-
-    // check location
-    if (locationKeywords.includes(cleanTag)) {
-      categoryTags.locations.push(cleanTag);
-      continue;
-    }
-
-    // check brand
-    if (brandKeywords.includes(cleanTag)) {
-      categoryTags.brands.push(cleanTag);
-      continue;
-    }
-  }
-
-  // handle unclassified tags
-  const unclassifiedTags = hashtags.filter(tag => {
-    const cleanTag = tag.slice(1).toLowerCase();
-    return !demographicsGenderKeywords.includes(cleanTag) &&
-           !demographicsAgeKeywords.includes(cleanTag) &&
-           !sectorKeywords.includes(cleanTag) &&
-           !emotionKeywords.includes(cleanTag) &&
-           !locationKeywords.includes(cleanTag) &&
-           !brandKeywords.includes(cleanTag);
   });
 
-  // if there are unclassified tags and locations is empty, consider the first tag as locations
-  if (unclassifiedTags.length > 0 && categoryTags.locations.length === 0) {
-    const locationTag = unclassifiedTags[0].slice(1).toLowerCase();
-    categoryTags.locations.push(locationTag);
-    unclassifiedTags.shift();
-  }
-
-  // if there are unclassified tags and brands is empty, consider the first tag as brands
-  if (unclassifiedTags.length > 0 && categoryTags.brands.length === 0) {
-    const brandTag = unclassifiedTags[0].slice(1).toLowerCase();
-    categoryTags.brands.push(brandTag);
-  }
-
-  // convert each category tag to a comma-separated string
-  for (const category in categoryTags) {
-    if (categoryTags[category as keyof typeof categoryTags].length > 0) {
-      metadata[category] = categoryTags[category as keyof typeof categoryTags].join(', ');
-    }
-  }
-
   // for backward compatibility, set demographics field
   if (metadata.demographics_gender || metadata.demographics_age) {
     const demographics = [];
@@ -841,117 +590,137 @@ export const resetPineconeVectors = async (
   }
 };
 
-// embedding search - search for similar videos using text (tags)
-export const textToVideoEmbeddingSearch = async (
-  videoId: string,
-  adsIndexId: string,
-  contentIndexId: string
-): Promise<EmbeddingSearchResult[]> => {
-  try {
+// Bulk vector reset - a dry run returns the count and a confirmation token
+export const previewVectorReset = async (options: VectorResetOptions): Promise<VectorResetResponse> => {
+  const response = await fetch('/api/vectors/reset', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...options, dryRun: true }),
+  });
 
-    // use the tag information (sector, emotions) of the selected ad video as the search term
-    const videoDetails = await fetchVideoDetails(videoId, adsIndexId);
-    const sector = videoDetails.user_metadata?.sector || '';
-    const emotions = videoDetails.user_metadata?.emotions || '';
-    const videoTitle = videoDetails.system_metadata?.video_title ||
-                     videoDetails.system_metadata?.filename ||
-                     `Video ${videoId}`;
+  const data: VectorResetResponse = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
 
-    // map to store the results (use videoId as the key)
-    const resultMap = new Map();
+// Bulk vector reset - deletes using the token issued by previewVectorReset
+export const confirmVectorReset = async (
+  options: VectorResetOptions,
+  confirmationToken: string
+): Promise<VectorResetResponse> => {
+  const response = await fetch('/api/vectors/reset', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...options, confirmationToken }),
+  });
 
-    // 1. tag-based search (sector + emotions)
-    const tagSearchTerm = `${sector} ${emotions}`.trim();
-    if (tagSearchTerm) {
+  const data: VectorResetResponse = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
 
-      try {
-        const tagResponse = await fetch('/api/embeddingSearch/textToVideo', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            searchTerm: tagSearchTerm,
-            indexId: contentIndexId
-          }),
-        });
-
-        if (tagResponse.ok) {
-          const tagResults: EmbeddingSearchResult[] = await tagResponse.json();
-
-          // store the tag-based results in the Map
-          tagResults.forEach(result => {
-            const resultVideoId = result.metadata?.tl_video_id;
-            if (resultVideoId) {
-              // add searchMethod property to each result
-              result.searchMethod = 'tag';
-              resultMap.set(resultVideoId, result);
-            }
-          });
-        }
-      } catch (error) {
-        console.error("Error in tag-based search:", error);
-      }
-    }
+// List vectors produced by an older embedding model
+export const findStaleVectors = async (indexId?: string): Promise<StaleVectorsResponse> => {
+  const response = await fetch('/api/vectors/reembed', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ indexId, dryRun: true }),
+  });
 
-    try {
-      const titleResponse = await fetch('/api/embeddingSearch/textToVideo', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          searchTerm: videoTitle,
-          indexId: contentIndexId
-        }),
-      });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
 
-      if (titleResponse.ok) {
-        const titleResults: EmbeddingSearchResult[] = await titleResponse.json();
-
-        // add title-based results to the Map (compare scores if already exists)
-        titleResults.forEach(result => {
-          const resultVideoId = result.metadata?.tl_video_id;
-          if (resultVideoId) {
-            result.searchMethod = 'title';
-
-            // if the result is already found in the tag-based search, compare scores
-            if (resultMap.has(resultVideoId)) {
-              const existingResult = resultMap.get(resultVideoId);
-              // keep the result with the higher score
-              if (result.score > existingResult.score) {
-                resultMap.set(resultVideoId, result);
-              }
-            } else {
-              // add new result
-              resultMap.set(resultVideoId, result);
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Error in title-based search:", error);
-    }
+// Start re-embedding stale vectors in the background
+export const startReembedJob = async (indexId?: string): Promise<VectorJob> => {
+  const response = await fetch('/api/vectors/reembed', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ indexId }),
+  });
 
-    // convert all values in the Map to an array
-    const finalResults = Array.from(resultMap.values());
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.job;
+};
 
-    // sort by score
-    finalResults.sort((a, b) => b.score - a.score);
+// Progress of a background re-embed or reconcile job
+export const fetchVectorJob = async (jobId: string): Promise<VectorJob> => {
+  const response = await fetch(`/api/vectors/jobs?jobId=${jobId}`);
 
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
 
-    return finalResults;
-  } catch (error) {
-    console.error('Error in text to video embedding search:', error);
-    throw error;
+// Diff both TwelveLabs indexes against the vector store, optionally repairing what differs
+export const reconcileVectors = async (
+  options: { deleteOrphans?: boolean; ingestMissing?: boolean } = {}
+): Promise<ReconcileResponse> => {
+  const repair = !!options.deleteOrphans || !!options.ingestMissing;
+  const response = await fetch('/api/vectors/reconcile', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...options, dryRun: !repair }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// embedding search - search the content index with the ad's tags and title; the server builds the search terms
+export const textToVideoEmbeddingSearch = async (
+  videoId: string,
+  adsIndexId: string,
+  contentIndexId: string,
+  targets?: EmbeddingSearchTarget[]
+): Promise<EmbeddingSearchResult[]> => {
+  const response = await fetch('/api/embeddingSearch/textToVideo', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoId, sourceIndexId: adsIndexId, indexId: contentIndexId, targets }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
   }
+  return data;
 };
 
 // video-based embedding search - find similar content to the selected ad
 export const videoToVideoEmbeddingSearch = async (
   videoId: string,
   adsIndexId: string,
-  contentIndexId: string
+  contentIndexId: string,
+  targets?: EmbeddingSearchTarget[],
+  aggregation?: VideoSearchAggregation
 ): Promise<EmbeddingSearchResult[]> => {
   try {
     const response = await fetch('/api/embeddingSearch/videoToVideo', {
@@ -961,7 +730,10 @@ export const videoToVideoEmbeddingSearch = async (
       },
       body: JSON.stringify({
         videoId: videoId,
-        indexId: contentIndexId
+        indexId: contentIndexId,
+        sourceIndexId: adsIndexId,
+        targets,
+        aggregation
       }),
     });
 
@@ -969,15 +741,363 @@ export const videoToVideoEmbeddingSearch = async (
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    const results: EmbeddingSearchResult[] = await response.json();
+    const data: VideoToVideoSearchResponse = await response.json();
+    if (data.timings.timedOut) {
+      console.warn(`Video search skipped ${data.timings.skippedQueries} queries after hitting its time budget`);
+    }
 
-    return results;
+    return data.results;
   } catch (error) {
     console.error('Error in video to video embedding search:', error);
     throw error;
   }
 };
 
+// reverse search - rank ads for the selected content video with the same text and video signals
+export const contentToAdsEmbeddingSearch = async (
+  videoId: string,
+  contentIndexId: string,
+  adsIndexId: string,
+  targets?: EmbeddingSearchTarget[]
+): Promise<ContentToAdsResponse> => {
+  const response = await fetch('/api/embeddingSearch/contentToAds', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoId, contentIndexId, adsIndexId, targets }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  if (data.videoError) {
+    console.warn(`Video-based ad search failed, using text results only: ${data.videoError}`);
+  }
+
+  return data;
+};
+
+// merge text and video search results on the server with a selectable fusion strategy
+export const fetchFusedResults = async (
+  textResults: EmbeddingSearchResult[],
+  videoResults: EmbeddingSearchResult[],
+  fusion?: FusionOptions,
+  source?: { videoId: string; direction: AnalysisDirection; requireAudienceOverlap?: boolean }
+): Promise<FusionResponse> => {
+  const response = await fetch('/api/analysis/fuse', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ textResults, videoResults, fusion, ...source }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Apply the score cutoff, per-source caps and diversity re-ranking on the server
+export const rerankResults = async (
+  direction: AnalysisDirection,
+  results: EmbeddingSearchResult[],
+  rerank?: RerankOptions
+): Promise<RerankResponse> => {
+  const response = await fetch('/api/analysis/rerank', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ direction, results, rerank }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Allocate ad impressions across content videos using the latest match matrix
+export const allocateInventory = async (request: AllocationRequest): Promise<AllocationPlan> => {
+  const response = await fetch('/api/analysis/allocation', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Break schedule for a content video from a pool of candidate ads
+export const planAdBreaks = async (
+  contentId: string,
+  ads: AdBreakCandidate[],
+  chapters?: ChapterWithMetadata[]
+): Promise<AdBreakPlan> => {
+  const response = await fetch('/api/analysis/breaks', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ contentId, ads, chapters }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Latest ads × content match matrix, or null if none has been computed
+export const fetchMatchMatrix = async (): Promise<MatchMatrix | null> => {
+  const response = await fetch('/api/analysis/matrix');
+  if (response.status === 404) return null;
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Start computing a new match matrix in the background
+export const startMatchMatrix = async (fusion?: FusionOptions): Promise<MatchMatrix> => {
+  const response = await fetch('/api/analysis/matrix', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fusion }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const fetchBrandSafetyRules = async (): Promise<BrandSafetyRule[]> => {
+  const response = await fetch('/api/analysis/brand-safety/rules');
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.rules;
+};
+
+export const addBrandSafetyRule = async (
+  rule: Omit<BrandSafetyRule, 'id' | 'createdAt'>
+): Promise<BrandSafetyRule> => {
+  const response = await fetch('/api/analysis/brand-safety/rules', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(rule),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.rule;
+};
+
+export const deleteBrandSafetyRule = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/analysis/brand-safety/rules?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+export const fetchTaxonomy = async (): Promise<Taxonomy> => {
+  const response = await fetch('/api/analysis/taxonomy');
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.taxonomy;
+};
+
+export const saveTaxonomy = async (taxonomy: Taxonomy): Promise<Taxonomy> => {
+  const response = await fetch('/api/analysis/taxonomy', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(taxonomy),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.taxonomy;
+};
+
+export const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await fetch('/api/analysis/campaigns');
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.campaigns;
+};
+
+export const createCampaign = async (name: string, adIds: string[]): Promise<Campaign> => {
+  const response = await fetch('/api/analysis/campaigns', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name, adIds }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.campaign;
+};
+
+export const deleteCampaign = async (id: string): Promise<void> => {
+  const response = await fetch(`/api/analysis/campaigns?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+// Score content against every ad of a campaign
+export const analyzeCampaign = async (campaignId: string, fusion?: FusionOptions): Promise<CampaignAnalysis> => {
+  const response = await fetch('/api/analysis/campaigns/analyze', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ campaignId, fusion }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Filter and down-rank analysis results with the stored brand-safety rules
+export const applyBrandSafety = async (
+  videoId: string,
+  direction: AnalysisDirection,
+  results: EmbeddingSearchResult[]
+): Promise<BrandSafetyResponse> => {
+  const response = await fetch('/api/analysis/brand-safety', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoId, direction, results }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Structured explanation of why a content video matched an ad
+export const fetchMatchExplanation = async (adId: string, contentId: string): Promise<MatchExplanation> => {
+  const response = await fetch('/api/analysis/explain', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ adId, contentId }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const saveAnalysisRun = async (
+  run: Omit<AnalysisRun, 'id' | 'createdAt'>
+): Promise<{ id: string; createdAt: string }> => {
+  const response = await fetch('/api/analysis/runs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(run),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const fetchAnalysisRuns = async (videoId?: string): Promise<AnalysisRunSummary[]> => {
+  const query = videoId ? `?videoId=${encodeURIComponent(videoId)}` : '';
+  const response = await fetch(`/api/analysis/runs${query}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.runs;
+};
+
+export const fetchAnalysisRun = async (runId: string): Promise<AnalysisRun> => {
+  const response = await fetch(`/api/analysis/runs/${encodeURIComponent(runId)}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const fetchAnalysisRunDiff = async (fromRunId: string, toRunId: string): Promise<AnalysisRunDiff> => {
+  const response = await fetch(
+    `/api/analysis/runs/diff?from=${encodeURIComponent(fromRunId)}&to=${encodeURIComponent(toRunId)}`
+  );
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
 // get chapters of a video
 export const generateChapters = async (videoId: string): Promise<ChaptersData> => {
   try {
@@ -1087,12 +1207,12 @@ export const checkAndEnsureEmbeddings = async (
       const missingEmbeddings: string[] = [];
       const existingEmbeddings: string[] = [];
 
-      // First check which content videos need embeddings
+      // First check which content videos need embeddings with a single batch call
+      const { statuses } = await fetchEmbeddingStatuses(contentIndexId, contentVideos.map(video => video._id));
       for (const video of contentVideos) {
         const videoId = video._id;
-        const hasEmbedding = await checkVectorExists(videoId, contentIndexId);
 
-        if (hasEmbedding) {
+        if (statuses[videoId]?.state === 'complete') {
           existingEmbeddings.push(videoId);
         } else {
           missingEmbeddings.push(videoId);
@@ -1102,7 +1222,7 @@ export const checkAndEnsureEmbeddings = async (
       // Generate embeddings for videos that need them
       if (missingEmbeddings.length > 0) {
         for (const videoId of missingEmbeddings) {
-          const embedResult = await getAndStoreEmbeddings(contentIndexId, videoId);
+          const embedResult = await getAndStoreEmbeddings(contentIndexId, videoId, true);
 
           if (embedResult.success) {
           } else {
@@ -1138,4 +1258,4 @@ export const checkAndEnsureEmbeddings = async (
       totalCount: contentVideos ? contentVideos.length + 1 : 1
     };
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,83 @@
+// 제목 기반 벡터 ID를 TwelveLabs 비디오 ID 기반으로 변환하는 스크립트
+import fetch from "node-fetch";
+import dotenv from "dotenv";
+dotenv.config();
+
+// pass --dry-run to only report what would change
+const dryRun = process.argv.includes("--dry-run");
+
+// API 및 서버 URL
+const API_SERVER_URL =
+  process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:3000";
+
+async function migrateVectorIds() {
+  console.log(
+    `🔄 ${dryRun ? "checking" : "migrating"} title-based vector IDs via API server...`
+  );
+
+  const requestMigration = async (body) => {
+    const response = await fetch(`${API_SERVER_URL}/api/vectors/migrate-ids`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ API server error: ${response.status} - ${errorText}`);
+      process.exit(1);
+    }
+
+    return response.json();
+  };
+
+  // A real run is confirmed with the token issued by a dry run
+  const preview = await requestMigration({ dryRun: true });
+  const result = dryRun
+    ? preview
+    : await requestMigration({ dryRun: false, confirmationToken: preview.confirmationToken });
+
+  console.log(`📊 scanned ${result.scanned} vectors, ${result.legacyCount} with legacy IDs`);
+  console.log(
+    `${dryRun ? "📝 would migrate" : "✅ migrated"} ${result.migrated} vectors (${result.alreadyMigrated} already had a stable ID)`
+  );
+
+  const { titleCollisions, duplicateTargets } = result.collisions;
+
+  if (titleCollisions.length > 0) {
+    console.warn(`⚠️ found ${titleCollisions.length} title collisions:`);
+    titleCollisions.forEach((collision) => {
+      console.warn(`  - ${collision.legacyIdBase}: ${collision.videoIds.join(", ")}`);
+    });
+  }
+
+  if (duplicateTargets.length > 0) {
+    console.warn(`⚠️ found ${duplicateTargets.length} legacy vectors mapping to the same new ID:`);
+    duplicateTargets.forEach((duplicate) => {
+      console.warn(`  - ${duplicate.targetId}: ${duplicate.legacyIds.join(", ")}`);
+    });
+  }
+
+  if (result.unmigratable.length > 0) {
+    console.warn(`⚠️ ${result.unmigratable.length} vectors could not be migrated:`);
+    result.unmigratable.forEach((item) => {
+      console.warn(`  - ${item.id}: ${item.reason}`);
+    });
+  }
+
+  if (result.videosToReingest.length > 0) {
+    console.log(
+      `🔁 re-ingest these videos to restore overwritten vectors: ${result.videosToReingest.join(", ")}`
+    );
+  }
+}
+
+// 스크립트 실행
+migrateVectorIds().catch((error) => {
+  console.error(`❌ 예기치 않은 오류 발생:`, error);
+  process.exit(1);
+});
+
+// node src/scripts/migrateVectorIds.js --dry-run
@@ -83,103 +83,21 @@ async function fetchAllVideos() {
   return allVideos;
 }
 
-// 비디오 임베딩 가져오기
-async function fetchVideoEmbedding(videoId, indexId) {
+// 서버에서 임베딩을 가져와 벡터 스토어에 저장하기
+async function ingestVideoEmbedding(videoId, indexId) {
   try {
-    console.log(`🔍 getting embedding for video ${videoId}...`);
+    console.log(`📝 ingesting embedding for video ${videoId}...`);
 
-    const response = await fetch(
-      `${API_BASE_URL}/indexes/${indexId}/videos/${videoId}?embedding_option=visual-text&embedding_option=audio`,
-      {
-        method: "GET",
-        headers: {
-          "x-api-key": API_KEY,
-          Accept: "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    if (
-      !data.embedding ||
-      !data.embedding.video_embedding ||
-      !data.embedding.video_embedding.segments
-    ) {
-      throw new Error(
-        `비디오 ${videoId}의 임베딩 데이터가 없거나 형식이 올바르지 않습니다.`
-      );
-    }
-
-    console.log(
-      `✅ completed getting embedding for video ${videoId}. found ${data.embedding.video_embedding.segments.length} segments`
-    );
-
-    // 디버깅: 첫 번째 세그먼트 구조 확인
-    if (data.embedding.video_embedding.segments.length > 0) {
-      const firstSegment = data.embedding.video_embedding.segments[0];
-      console.log(`🔍 first segment structure:`, Object.keys(firstSegment));
-      if (firstSegment.float) {
-        console.log(`  - float array length: ${firstSegment.float.length}`);
-      }
-    }
-
-    return data;
-  } catch (error) {
-    console.error(`❌ 비디오 ${videoId}의 임베딩 가져오기 오류:`, error);
-    return null;
-  }
-}
-
-// 임베딩을 Pinecone에 저장하기
-async function storeEmbeddingInPinecone(
-  videoId,
-  videoName,
-  videoData,
-  indexId
-) {
-  try {
-    console.log(`📝 storing embedding for video ${videoId} in Pinecone...`);
-
-    // 데이터 구조를 벡터 저장 API에 맞게 조정
-    const formattedEmbedding = {
-      video_embedding: {
-        segments: videoData.embedding.video_embedding.segments,
-      },
-      system_metadata: videoData.system_metadata || {},
-    };
-
-    // 첫 번째 세그먼트 데이터를 자세히 출력
-    if (formattedEmbedding.video_embedding.segments.length > 0) {
-      console.log(`📊 adjusted embedding data structure:`, {
-        segmentsCount: formattedEmbedding.video_embedding.segments.length,
-        firstSegmentKeys: Object.keys(
-          formattedEmbedding.video_embedding.segments[0]
-        ),
-      });
-    }
-
-    const response = await fetch(`http://localhost:3000/api/vectors/store`, {
+    const response = await fetch(`http://localhost:3000/api/vectors/ingest`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        videoId,
-        videoName,
-        embedding: formattedEmbedding,
-        indexId,
-      }),
+      body: JSON.stringify({ videoId, indexId }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`API 응답 오류 내용: ${errorText}`);
       throw new Error(`API error: ${response.status} - ${errorText}`);
     }
 
@@ -259,31 +177,8 @@ async function main() {
           continue;
         }
 
-        // 임베딩 가져오기
-        const videoData = await fetchVideoEmbedding(video._id, ADS_INDEX_ID);
-
-        if (!videoData) {
-          console.log(
-            `⚠️ failed to get embedding data for video ${video._id}. skipping...`
-          );
-          continue;
-        }
-
-        // 비디오 파일 이름 결정
-        const videoName =
-          videoData.system_metadata?.filename ||
-          videoData.system_metadata?.video_title ||
-          `video_${video._id}.mp4`;
-
-        console.log(`🏷️ video name: ${videoName}`);
-
         // 임베딩 저장
-        const success = await storeEmbeddingInPinecone(
-          video._id,
-          videoName,
-          videoData,
-          ADS_INDEX_ID
-        );
+        const success = await ingestVideoEmbedding(video._id, ADS_INDEX_ID);
 
         if (success) {
           successCount++;
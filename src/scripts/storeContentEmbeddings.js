@@ -82,83 +82,21 @@ async function fetchAllVideos() {
   return allVideos;
 }
 
-// get video embedding
-async function fetchVideoEmbedding(videoId, indexId) {
+// fetch embedding on the server and store it in the vector store
+async function ingestVideoEmbedding(videoId, indexId) {
   try {
-    console.log(`🔍 getting embedding for video ${videoId}...`);
+    console.log(`📝 ingesting embedding for video ${videoId}...`);
 
-    const response = await fetch(
-      `${API_BASE_URL}/indexes/${indexId}/videos/${videoId}?embedding_option=visual-text&embedding_option=audio`,
-      {
-        method: "GET",
-        headers: {
-          "x-api-key": API_KEY,
-          Accept: "application/json",
-        },
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    if (
-      !data.embedding ||
-      !data.embedding.video_embedding ||
-      !data.embedding.video_embedding.segments
-    ) {
-      throw new Error(
-        `embedding data for video ${videoId} is empty or invalid`
-      );
-    }
-
-    console.log(
-      `✅ completed getting embedding for video ${videoId}. found ${data.embedding.video_embedding.segments.length} segments`
-    );
-
-    return data;
-  } catch (error) {
-    console.error(`❌ error getting embedding for video ${videoId}:`, error);
-    return null;
-  }
-}
-
-// store embedding in Pinecone
-async function storeEmbeddingInPinecone(
-  videoId,
-  videoName,
-  videoData,
-  indexId
-) {
-  try {
-    console.log(`📝 storing embedding for video ${videoId} in Pinecone...`);
-
-    const formattedEmbedding = {
-      video_embedding: {
-        segments: videoData.embedding.video_embedding.segments,
-      },
-      system_metadata: videoData.system_metadata || {},
-    };
-
-    const response = await fetch(`http://localhost:3000/api/vectors/store`, {
+    const response = await fetch(`http://localhost:3000/api/vectors/ingest`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        videoId,
-        videoName,
-        embedding: formattedEmbedding,
-        indexId,
-      }),
+      body: JSON.stringify({ videoId, indexId }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`API response error: ${errorText}`);
       throw new Error(`API error: ${response.status} - ${errorText}`);
     }
 
@@ -235,32 +173,8 @@ async function main() {
           continue;
         }
 
-        const videoData = await fetchVideoEmbedding(
-          video._id,
-          CONTENT_INDEX_ID
-        );
-
-        if (!videoData) {
-          console.log(
-            `⚠️ failed to get embedding data for video ${video._id}. skipping...`
-          );
-          continue;
-        }
-
-        const videoName =
-          videoData.system_metadata?.filename ||
-          videoData.system_metadata?.video_title ||
-          `video_${video._id}.mp4`;
-
-        console.log(`🏷️ video name: ${videoName}`);
-
         // store embedding
-        const success = await storeEmbeddingInPinecone(
-          video._id,
-          videoName,
-          videoData,
-          CONTENT_INDEX_ID
-        );
+        const success = await ingestVideoEmbedding(video._id, CONTENT_INDEX_ID);
 
         if (success) {
           successCount++;
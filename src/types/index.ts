@@ -163,6 +163,7 @@ export type VideoDetails = {
 };
 
 export interface Segment {
+  embedding_option?: string;
   embedding_scope: string;
   end_offset_sec: number;
   float: number[];
@@ -186,6 +187,173 @@ export interface VectorMetadata {
   video_segment: number;
 }
 
+// Vector store types (shared by the Pinecone and local backends)
+export type VectorMetadataValue = string | number | boolean | string[];
+
+export type VectorRecordMetadata = Record<string, VectorMetadataValue>;
+
+// Pinecone-style metadata filter, e.g. { tl_video_id: 'abc', scope: { $in: ['clip', 'video'] } }
+export type VectorFilter = Record<string, unknown>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorRecordMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  values?: number[];
+  metadata?: VectorRecordMetadata;
+}
+
+export interface VectorQueryOptions {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  includeValues?: boolean;
+  includeMetadata?: boolean;
+}
+
+export interface VectorStoreStats {
+  dimension?: number;
+  totalRecordCount: number;
+  namespaces: Record<string, { recordCount: number }>;
+}
+
+export type VectorStoreBackend = 'pinecone' | 'local';
+
+export interface VectorStore {
+  backend: VectorStoreBackend;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(options: VectorQueryOptions): Promise<VectorMatch[]>;
+  fetch(ids: string[]): Promise<Record<string, VectorRecord>>;
+  deleteMany(filter: VectorFilter): Promise<void>;
+  deleteIds(ids: string[]): Promise<void>;
+  deleteAll(): Promise<void>;
+  listIds(prefix?: string): Promise<string[]>;
+  findIds(filter: VectorFilter): Promise<string[]>;
+  describeStats(): Promise<VectorStoreStats>;
+}
+
+export interface UpsertBatchOutcome {
+  batch: number;
+  size: number;
+  attempts: number;
+  status: 'stored' | 'failed';
+  error?: string;
+}
+
+export interface UpsertReport {
+  stored: number;
+  failed: number;
+  batches: UpsertBatchOutcome[];
+  // True when stored batches were undone because another batch failed: new vectors deleted, replaced ones restored
+  rolledBack: boolean;
+}
+
+// Summary of the vectors stored for one video, built from its ID prefix
+export interface VideoVectorManifest {
+  videoId: string;
+  indexId: string;
+  exists: boolean;
+  vectorIds: string[];
+  segmentCount: number;
+  // Number of segments written at ingestion time, null for vectors stored before it was recorded
+  expectedSegmentCount: number | null;
+  scopes: Record<string, number>;
+  embeddingOptions: string[];
+  model: string | null;
+}
+
+export type EmbeddingState = 'missing' | 'partial' | 'complete' | 'stale_model';
+
+export interface VideoEmbeddingStatus {
+  videoId: string;
+  state: EmbeddingState;
+  segmentCount: number;
+  expectedSegmentCount: number | null;
+  model: string | null;
+}
+
+export interface EmbeddingStatusResponse {
+  indexId: string;
+  currentModel: string;
+  statuses: Record<string, VideoEmbeddingStatus>;
+  summary: Record<EmbeddingState, number>;
+}
+
+export interface VectorResetOptions {
+  resetAll?: boolean;
+  scope?: {
+    indexId?: string;
+    category?: 'ad' | 'content';
+    embeddingModel?: string | null;
+  };
+}
+
+export interface VectorResetResponse {
+  success: boolean;
+  dryRun?: boolean;
+  count?: number;
+  deleted?: number;
+  message?: string;
+  error?: string;
+  confirmationToken?: string;
+  confirmationExpiresAt?: string;
+}
+
+export interface StaleVideoVectors {
+  indexId: string;
+  videoId: string;
+  vectorCount: number;
+}
+
+export interface StaleVectorsResponse {
+  currentModel: string;
+  staleVectorCount: number;
+  videos: StaleVideoVectors[];
+  // Title-based IDs cannot be mapped to a video; migrate them first
+  unmappedIds: string[];
+}
+
+export type VectorJobKind = 'reembed' | 'reconcile';
+
+// Background job that re-ingests a list of videos
+export interface VectorJob {
+  id: string;
+  kind: VectorJobKind;
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  succeeded: number;
+  failures: Array<{ indexId: string; videoId: string; reason: string }>;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface ReconcileIndexReport {
+  indexId: string;
+  videoCount: number;
+  // Vectors whose video no longer exists in the TwelveLabs index
+  orphans: Array<{ videoId: string; vectorCount: number }>;
+  missing: string[];
+  partial: string[];
+  staleModel: string[];
+  complete: number;
+}
+
+export interface ReconcileResponse {
+  success: boolean;
+  dryRun: boolean;
+  currentModel: string;
+  indexes: ReconcileIndexReport[];
+  deletedOrphanVectors?: number;
+  job?: VectorJob | null;
+  error?: string;
+}
+
 // Define types for embeddings and transcription
 export interface EmbeddingSegment {
   embedding_option: string;
@@ -405,10 +573,38 @@ export interface SearchResultsProps {
 export interface SimilarVideoResultsProps {
   results: EmbeddingSearchResult[];
   indexId: string;
+  // Content video the results were found for; when set, results are ads
+  sourceVideo?: VideoData;
+}
+
+export type EmbeddingOption = 'visual-text' | 'audio';
+
+// 'clip' vectors cover a few seconds, 'video' vectors summarize the whole video
+export type EmbeddingScope = 'clip' | 'video';
+
+// One modality/scope combination to search, weighted against the others
+export interface EmbeddingSearchTarget {
+  option: EmbeddingOption;
+  scope: EmbeddingScope;
+  weight: number;
+}
+
+// A source segment and the target segment it matched, e.g. an ad clip and a content clip
+export interface SegmentMatch {
+  score: number;
+  option: string;
+  source: { start_time: number; end_time: number };
+  target: { start_time: number; end_time: number };
 }
 
 export interface EmbeddingSearchResult {
   score: number;
+  // Best matching segment pairs, strongest first (video-to-video search only)
+  matchedSegments?: SegmentMatch[];
+  // Best score per `<option>:<scope>` target before weighting
+  modalityScores?: Record<string, number>;
+  // Names of brand-safety rules that lowered the score
+  downrankedBy?: string[];
   metadata?: {
     tl_video_id: string;
     tl_index_id: string;
@@ -419,6 +615,380 @@ export interface EmbeddingSearchResult {
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
   textScore?: number;
   videoScore?: number;
+  // Weighted overlap of both videos' metadata tags, in [0, 1]
+  tagScore?: number;
+  audienceFit?: AudienceFit;
+}
+
+// How well a content video's audience matches an ad's target demographics
+export interface AudienceFit {
+  // Mean of the known components, or null when neither can be compared
+  score: number | null;
+  // Share of the ad's target ages that the content audience covers
+  age: number | null;
+  // 1 when the gender targets overlap, 0 when they do not
+  gender: number | null;
+  // False only when a known component has no overlap at all
+  overlaps: boolean;
+}
+
+// How clip-level matches are rolled up into one score per content video
+export type VideoAggregationMode = 'max' | 'mean_top_k' | 'coverage' | 'centroid';
+
+export interface VideoSearchAggregation {
+  mode: VideoAggregationMode;
+  // Number of best clip matches averaged by mean_top_k
+  k?: number;
+}
+
+export interface VideoSearchTimings {
+  totalMs: number;
+  manifestMs: number;
+  fetchMs: number;
+  queryMs: number;
+  queries: number;
+  skippedQueries: number;
+  timedOut: boolean;
+}
+
+export interface VideoToVideoSearchResponse {
+  results: EmbeddingSearchResult[];
+  aggregation: Required<VideoSearchAggregation>;
+  timings: VideoSearchTimings;
+}
+
+// Contextual analysis runs either from an ad to content videos or from a content video to ads
+export type AnalysisDirection = 'ad_to_content' | 'content_to_ads';
+
+export interface ContentToAdsResponse {
+  text: EmbeddingSearchResult[];
+  video: EmbeddingSearchResult[];
+  // Set when the video search failed; text results are still returned
+  videoError?: string;
+  timings?: VideoSearchTimings;
+}
+
+export type FusionStrategy = 'weighted_sum' | 'rrf' | 'max_boost';
+
+export interface FusionOptions {
+  strategy?: FusionStrategy;
+  // tag weights the metadata tag overlap and defaults to 0
+  weights?: { text: number; video: number; tag?: number };
+  // Rank offset for reciprocal rank fusion
+  rrfK?: number;
+  // Multiplier for results found by both searches in max_boost
+  boost?: number;
+}
+
+export interface FusedSearchResult extends EmbeddingSearchResult {
+  textRank?: number;
+  videoRank?: number;
+  tagRank?: number;
+}
+
+export interface FusionResponse {
+  fusion: Required<FusionOptions>;
+  results: FusedSearchResult[];
+  // Results dropped by requireAudienceOverlap
+  audienceFiltered?: number;
+}
+
+// Applied after fusion and brand safety so every view of the results sees the same list
+export interface RerankOptions {
+  // Maximal marginal relevance trade-off: 1 keeps the score order, lower values favour variety
+  mmrLambda?: number;
+  minScore?: number;
+  // Most results per user_metadata.source (show or series); 0 for no cap
+  maxPerSource?: number;
+}
+
+export interface RerankResponse<T extends EmbeddingSearchResult = EmbeddingSearchResult> {
+  results: T[];
+  rerank: Required<RerankOptions>;
+  removed: { belowMinScore: number; sourceCapped: number };
+}
+
+// Tag categories read from user_metadata; several legacy field names map to each one
+export type TagCategory = 'topic' | 'emotions' | 'brands' | 'locations' | 'gender' | 'age';
+
+// exclude: drop content with any of the values. include: drop content with none of them.
+// downrank: multiply the score of content with any of the values by `penalty`.
+export type BrandSafetyAction = 'exclude' | 'include' | 'downrank';
+
+export interface BrandSafetyRule {
+  id: string;
+  name: string;
+  // Applies to one ad, to every ad of a brand, or to all ads when neither is set
+  adId?: string;
+  brand?: string;
+  category: TagCategory;
+  values: string[];
+  action: BrandSafetyAction;
+  penalty?: number;
+  createdAt: string;
+}
+
+export interface ExcludedSearchResult {
+  result: EmbeddingSearchResult;
+  rule: BrandSafetyRule;
+  // Content values that triggered an exclude rule; empty for include rules
+  matchedValues: string[];
+}
+
+export interface BrandSafetyResponse {
+  results: EmbeddingSearchResult[];
+  excluded: ExcludedSearchResult[];
+}
+
+export interface DemographicOverlap {
+  ad: string[];
+  content: string[];
+  shared: string[];
+}
+
+// Why a content video matched an ad, computed on the server so every view shows the same breakdown
+export interface MatchExplanation {
+  adId: string;
+  contentId: string;
+  // The stronger of the text and video signals, or BOTH when they are close; absent when neither has a score
+  originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
+  // Computed by the server from the stored vectors and metadata
+  scores: {
+    // Fused score from the latest match matrix; absent when the matrix has no cell for the pair
+    score?: number;
+    textScore: number;
+    videoScore: number;
+    tagScore: number;
+  };
+  // Only categories with at least one shared tag, after mapping tags to their taxonomy value, in display order
+  sharedTags: { category: TagCategory; tags: string[] }[];
+  demographics: {
+    gender: DemographicOverlap;
+    age: DemographicOverlap;
+  };
+  audienceFit: AudienceFit;
+  matchedSegments: SegmentMatch[];
+  summary: string;
+}
+
+// One contextual analysis, stored so it can be reopened without searching again
+export interface AnalysisRun {
+  id: string;
+  // The ad for ad_to_content runs, the content video for content_to_ads runs
+  videoId: string;
+  videoTitle?: string;
+  direction: AnalysisDirection;
+  fusion: FusionOptions;
+  requireAudienceOverlap?: boolean;
+  rerank?: RerankOptions;
+  // Raw search results, kept so the run can be re-fused with another strategy
+  searchResults: { text: EmbeddingSearchResult[]; video: EmbeddingSearchResult[] };
+  results: EmbeddingSearchResult[];
+  excluded: ExcludedSearchResult[];
+  createdAt: string;
+}
+
+export type AnalysisRunSummary = Pick<AnalysisRun, 'id' | 'videoId' | 'videoTitle' | 'direction' | 'fusion' | 'createdAt'> & {
+  resultCount: number;
+};
+
+export interface AnalysisRunDiffEntry {
+  videoId: string;
+  title?: string;
+  fromRank?: number;
+  toRank?: number;
+  fromScore?: number;
+  toScore?: number;
+  change: 'new' | 'dropped' | 'up' | 'down' | 'same';
+}
+
+export interface AnalysisRunDiff {
+  from: AnalysisRunSummary;
+  to: AnalysisRunSummary;
+  entries: AnalysisRunDiffEntry[];
+}
+
+export interface MatchMatrixVideo {
+  id: string;
+  title: string;
+}
+
+// Fused score of one ad against one content video
+export interface MatchMatrixCell {
+  adId: string;
+  contentId: string;
+  score: number;
+  textScore: number;
+  videoScore: number;
+  tagScore: number;
+  originalSource?: string;
+}
+
+export type MatchMatrixStatus = 'running' | 'completed' | 'failed';
+
+// Scores for every ad against every content video, computed in the background
+export interface MatchMatrix {
+  id: string;
+  status: MatchMatrixStatus;
+  adsIndexId: string;
+  contentIndexId: string;
+  fusion: Required<FusionOptions>;
+  ads: MatchMatrixVideo[];
+  contents: MatchMatrixVideo[];
+  // One cell per ad and content video; ads listed in failures have none
+  cells: MatchMatrixCell[];
+  processedAds: number;
+  failures: { adId: string; reason: string }[];
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// A named set of ad variants that run together
+export interface Campaign {
+  id: string;
+  name: string;
+  adIds: string[];
+  createdAt: string;
+}
+
+// One content video scored against every ad of a campaign
+export interface CampaignContentMatch {
+  contentId: string;
+  title: string;
+  // The ad variant that fits this content best
+  bestAdId: string;
+  bestScore: number;
+  // Mean across the campaign's scored ads
+  meanScore: number;
+  // Share of the campaign's scored ads that have the content among their 10 best-scoring content videos
+  coverage: number;
+  adScores: { adId: string; score: number }[];
+}
+
+export interface CampaignAnalysis {
+  campaignId: string;
+  fusion: Required<FusionOptions>;
+  ads: MatchMatrixVideo[];
+  // Best score first
+  results: CampaignContentMatch[];
+  failures: { adId: string; reason: string }[];
+  analyzedAt: string;
+}
+
+// An ad offered to the break planner, with its analysis score for the content video if known
+export interface AdBreakCandidate {
+  adId: string;
+  score?: number;
+}
+
+// One ad break at the end of a chapter and the ad assigned to it
+export interface AdBreakSlot {
+  breakIndex: number;
+  // Seconds into the content video
+  time: number;
+  chapterTitle?: string;
+  // Why the chapter end suits a break, from the chapter generation
+  chapterRationale?: string;
+  adId: string | null;
+  adTitle?: string;
+  score: number;
+  components: {
+    // Best similarity between the ad and the content clips around the break. Null when the ad has no
+    // vectors or no content clips are near the break; the score then uses the other two components.
+    context: number | null;
+    // Share of the ad's tags mentioned in the chapter text
+    keywords: number;
+    // The ad's score for the whole content video
+    analysis: number;
+  };
+  matchedKeywords: string[];
+  rationale: string;
+  // Next-best ads for this break
+  alternatives: { adId: string; score: number }[];
+}
+
+export interface AdBreakPlan {
+  contentId: string;
+  breaks: AdBreakSlot[];
+  // Candidates that were not assigned to any break
+  unplacedAdIds: string[];
+  createdAt: string;
+}
+
+// An ad to allocate, with its impression budget and optional per-content frequency cap
+export interface AllocationAdInput {
+  adId: string;
+  budget: number;
+  maxPerContent?: number;
+}
+
+export interface AllocationRequest {
+  ads: AllocationAdInput[];
+  // Impressions each content video can serve, by content ID
+  contentCapacity?: Record<string, number>;
+  defaultContentCapacity?: number;
+  defaultMaxPerContent?: number;
+  // Pairs scoring below this are never used
+  minScore?: number;
+  // Brands that must not share a content video. Without it, ads with different brands in the same topic compete.
+  competitorGroups?: string[][];
+}
+
+export interface AllocationPlacement {
+  adId: string;
+  contentId: string;
+  impressions: number;
+  // Matrix score after brand-safety down-ranking
+  score: number;
+  // Names of the down-ranking brand-safety rules that matched the pair
+  downrankedBy?: string[];
+}
+
+// An ad whose budget could not be fully placed, with how many candidate videos each constraint blocked
+export interface AllocationShortfall {
+  adId: string;
+  budget: number;
+  allocated: number;
+  shortfall: number;
+  blockedBy: {
+    contentCapacity: number;
+    competitor: number;
+    minScore: number;
+    brandSafety: number;
+  };
+  // True when the match matrix has no scores for the ad
+  unscored: boolean;
+}
+
+export interface AllocationPlan {
+  matrixId: string;
+  // Budgets, caps and capacities are solved as a min-cost flow that maximizes totalAlignment;
+  // competitor separation then rules out conflicting pairs and the flow is solved again
+  method: 'min_cost_flow';
+  placements: AllocationPlacement[];
+  totalImpressions: number;
+  // Sum of score × impressions over all placements
+  totalAlignment: number;
+  shortfalls: AllocationShortfall[];
+  createdAt: string;
+}
+
+export interface TaxonomyCategory {
+  id: TagCategory;
+  // Label used in the generation prompt and its labeled output
+  label: string;
+  filterLabel: string;
+  // Allowed values of a closed vocabulary; for an open one, known values that help classify bare hashtags
+  values: string[];
+  // Alternative spelling → value
+  synonyms: Record<string, string>;
+  open: boolean;
+}
+
+export interface Taxonomy {
+  // Prompt and filter-menu order
+  categories: TaxonomyCategory[];
+  updatedAt?: string;
 }
 
 export interface SelectedVideoData {
@@ -428,7 +998,9 @@ export interface SelectedVideoData {
   score?: number;
   textScore?: number;
   videoScore?: number;
+  tagScore?: number;
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
+  matchedSegments?: SegmentMatch[];
   metadata: VideoData;
 }
 
@@ -452,10 +1024,12 @@ export interface VideoDetailWithEmbedding {
   };
   user_metadata?: Record<string, string>;
   embedding: {
+    model_name?: string;
     video_embedding: {
       segments: Array<{
         start_offset_sec: number;
         end_offset_sec: number;
+        embedding_option?: string;
         embedding_scope: string;
         float: number[];
       }>;
@@ -469,6 +1043,8 @@ export interface ProcessingStatusResponse {
   category?: string;
   videoId?: string;
   indexId?: string;
+  matches_count?: number;
+  manifest?: VideoVectorManifest;
   error?: string;
 }
 
@@ -508,8 +1084,9 @@ export interface VideoModalProps {
   searchScore?: number;
   textScore?: number;
   videoScore?: number;
+  tagScore?: number;
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
-  contentMetadata?: VideoData;
+  matchedSegments?: SegmentMatch[];
 }
 
 export interface VideoUploaderProps {
@@ -0,0 +1,226 @@
+import { AdBreakCandidate, AdBreakPlan, AdBreakSlot, ChapterWithMetadata, Taxonomy, VectorRecord, VectorStore, VideoData } from '@/types';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
+import { parseVectorId } from '@/utils/vectorIds';
+import { cosineSimilarity, meanVector } from '@/utils/vectorMath';
+import { fetchVideoVectors } from '@/utils/reranking';
+import { extractVideoTags } from '@/utils/videoTags';
+import { canonicalTag } from '@/utils/tagSimilarity';
+import { videoTitle } from '@/utils/matchMatrix';
+
+// Content clips within this many seconds of a break describe its local context
+const CONTEXT_WINDOW_SEC = 10;
+const FETCH_BATCH_SIZE = 100;
+const COMPONENT_WEIGHTS = { context: 0.5, keywords: 0.2, analysis: 0.3 };
+const MAX_ALTERNATIVES = 2;
+const KEYWORD_CATEGORIES = ['topic', 'emotions', 'brands', 'locations'] as const;
+
+interface ScoredPair {
+  breakIndex: number;
+  adId: string;
+  score: number;
+  components: AdBreakSlot['components'];
+  matchedKeywords: string[];
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Clip-scope visual-text vectors of a video, fetched in batches
+const fetchClipVectors = async (vectorStore: VectorStore, indexId: string, videoId: string) => {
+  const manifest = await getVideoVectorManifest(vectorStore, indexId, videoId);
+  const clipIds = manifest.vectorIds.filter(id => {
+    const parts = parseVectorId(id);
+    return parts?.scope === 'clip' && parts.embeddingOption === 'visual-text';
+  });
+
+  const clips: VectorRecord[] = [];
+  for (let i = 0; i < clipIds.length; i += FETCH_BATCH_SIZE) {
+    clips.push(...Object.values(await vectorStore.fetch(clipIds.slice(i, i + FETCH_BATCH_SIZE))));
+  }
+  return clips.filter(clip => clip.values?.length);
+};
+
+// The whole-video vector of each ad, or the mean of its clip vectors when it has none
+const fetchAdVectors = async (vectorStore: VectorStore, indexId: string, adIds: string[]) => {
+  const vectors = await fetchVideoVectors(vectorStore, indexId, adIds);
+  const missing = adIds.filter(adId => !vectors.has(adId));
+
+  const clipMeans = await Promise.all(missing.map(async adId =>
+    [adId, meanVector((await fetchClipVectors(vectorStore, indexId, adId)).map(clip => clip.values))] as const
+  ));
+  clipMeans.forEach(([adId, mean]) => {
+    if (mean) vectors.set(adId, mean);
+  });
+  return vectors;
+};
+
+// Weighted sum of the components that have a signal, rescaled so a missing context does not count as 0
+const weightedScore = (components: AdBreakSlot['components']) => {
+  const parts = [
+    { weight: COMPONENT_WEIGHTS.context, value: components.context },
+    { weight: COMPONENT_WEIGHTS.keywords, value: components.keywords },
+    { weight: COMPONENT_WEIGHTS.analysis, value: components.analysis }
+  ].filter((part): part is { weight: number; value: number } => part.value !== null);
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  return parts.reduce((sum, part) => sum + part.weight * part.value, 0) / totalWeight;
+};
+
+// Ad tags that appear as whole words in the chapter text
+const matchKeywords = (text: string, ad: VideoData | undefined, taxonomy: Taxonomy) => {
+  const tags = extractVideoTags(ad?.user_metadata);
+  const adKeywords = Array.from(new Set(
+    KEYWORD_CATEGORIES.flatMap(category => tags[category].flatMap(tag => [tag, canonicalTag(taxonomy, category, tag)]))
+  ));
+  const lowerText = text.toLowerCase();
+  const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return {
+    matched: adKeywords.filter(keyword => new RegExp(`\\b${escape(keyword)}\\b`).test(lowerText)),
+    total: KEYWORD_CATEGORIES.reduce((sum, category) => sum + tags[category].length, 0)
+  };
+};
+
+const buildRationale = (pair: ScoredPair, time: number, adTitle: string, analysisRank?: number) => {
+  const reasons: string[] = [];
+  if (pair.components.context === null) {
+    reasons.push('there is no context signal for this break, so it was scored without one');
+  } else if (pair.components.context > 0) {
+    reasons.push(`the scenes around the break resemble the ad (${pair.components.context.toFixed(2)})`);
+  }
+  if (pair.matchedKeywords.length > 0) {
+    reasons.push(`the chapter mentions ${pair.matchedKeywords.join(', ')}`);
+  }
+  if (analysisRank !== undefined) {
+    reasons.push(`it ranked #${analysisRank} for this content in the analysis (${pair.components.analysis.toFixed(2)})`);
+  }
+  return reasons.length > 0
+    ? `${adTitle} fits the break at ${formatTime(time)}: ${reasons.join('; ')}.`
+    : `${adTitle} was the best remaining candidate for the break at ${formatTime(time)}.`;
+};
+
+// Assign one ad to the break at the end of every chapter. Each break is scored against each ad from
+// the content clips around it, the chapter text and the ad's overall analysis score. Ads are used once
+// while unplaced ones remain; after that an ad may repeat, but never in adjacent breaks.
+export const planAdBreaks = async (
+  vectorStore: VectorStore,
+  {
+    contentId,
+    contentIndexId,
+    adsIndexId,
+    candidates,
+    chapters,
+    ads,
+    taxonomy
+  }: {
+    contentId: string;
+    contentIndexId: string;
+    adsIndexId: string;
+    candidates: AdBreakCandidate[];
+    chapters: ChapterWithMetadata[];
+    ads: Map<string, VideoData>;
+    taxonomy: Taxonomy;
+  }
+): Promise<AdBreakPlan> => {
+  const [clips, adVectors] = await Promise.all([
+    fetchClipVectors(vectorStore, contentIndexId, contentId),
+    fetchAdVectors(vectorStore, adsIndexId, candidates.map(candidate => candidate.adId))
+  ]);
+
+  const analysisRanks = new Map(
+    [...candidates]
+      .filter(candidate => candidate.score !== undefined)
+      .sort((a, b) => b.score! - a.score!)
+      .map((candidate, index) => [candidate.adId, index + 1])
+  );
+
+  const pairs: ScoredPair[] = chapters.flatMap((chapter, breakIndex) => {
+    const time = chapter.end;
+    const nearbyClips = clips.filter(clip => {
+      const start = Number(clip.metadata?.start_time ?? 0);
+      const end = Number(clip.metadata?.end_time ?? 0);
+      return end > time - CONTEXT_WINDOW_SEC && start < time + CONTEXT_WINDOW_SEC;
+    });
+    const chapterText = [chapter.chapter_title, chapter.chapter_summary, chapter.text].filter(Boolean).join(' ');
+
+    return candidates.map(candidate => {
+      const adVector = adVectors.get(candidate.adId);
+      const context = adVector && nearbyClips.length > 0
+        ? Math.max(0, ...nearbyClips.map(clip => cosineSimilarity(adVector, clip.values)))
+        : null;
+      const { matched, total } = matchKeywords(chapterText, ads.get(candidate.adId), taxonomy);
+      const components = {
+        context,
+        keywords: total > 0 ? Math.min(1, matched.length / Math.min(total, 3)) : 0,
+        analysis: Math.min(1, Math.max(0, candidate.score ?? 0))
+      };
+      return { breakIndex, adId: candidate.adId, score: weightedScore(components), components, matchedKeywords: matched };
+    });
+  });
+
+  const sortedPairs = [...pairs].sort((a, b) => b.score - a.score);
+  const assigned = new Map<number, ScoredPair>();
+  const usedAds = new Set<string>();
+
+  // First pass: every ad at most once
+  sortedPairs.forEach(pair => {
+    if (assigned.has(pair.breakIndex) || usedAds.has(pair.adId)) return;
+    assigned.set(pair.breakIndex, pair);
+    usedAds.add(pair.adId);
+  });
+
+  // More breaks than ads: fill the rest, keeping the same ad out of neighbouring breaks
+  sortedPairs.forEach(pair => {
+    if (assigned.has(pair.breakIndex)) return;
+    const neighbours = [assigned.get(pair.breakIndex - 1), assigned.get(pair.breakIndex + 1)];
+    if (neighbours.some(neighbour => neighbour?.adId === pair.adId)) return;
+    assigned.set(pair.breakIndex, pair);
+  });
+
+  const breaks: AdBreakSlot[] = chapters.map((chapter, breakIndex) => {
+    const pair = assigned.get(breakIndex);
+    const alternatives = pairs
+      .filter(candidate => candidate.breakIndex === breakIndex && candidate.adId !== pair?.adId)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ALTERNATIVES)
+      .map(({ adId, score }) => ({ adId, score }));
+    const base = {
+      breakIndex,
+      time: chapter.end,
+      chapterTitle: chapter.chapter_title,
+      chapterRationale: chapter.chapter_summary || chapter.text,
+      alternatives
+    };
+
+    if (!pair) {
+      return {
+        ...base,
+        adId: null,
+        score: 0,
+        components: { context: null, keywords: 0, analysis: 0 },
+        matchedKeywords: [],
+        rationale: `No candidate ad could be placed at ${formatTime(chapter.end)}.`
+      };
+    }
+
+    const ad = ads.get(pair.adId);
+    const adTitle = ad ? videoTitle(ad) : `Ad ${pair.adId}`;
+    return {
+      ...base,
+      adId: pair.adId,
+      adTitle,
+      score: pair.score,
+      components: pair.components,
+      matchedKeywords: pair.matchedKeywords,
+      rationale: buildRationale(pair, chapter.end, adTitle, analysisRanks.get(pair.adId))
+    };
+  });
+
+  return {
+    contentId,
+    breaks,
+    unplacedAdIds: candidates.map(candidate => candidate.adId).filter(adId => !usedAds.has(adId)),
+    createdAt: new Date().toISOString()
+  };
+};
@@ -0,0 +1,272 @@
+import {
+  AllocationPlan,
+  AllocationPlacement,
+  AllocationRequest,
+  AllocationShortfall,
+  BrandSafetyRule,
+  MatchMatrix,
+  Taxonomy,
+  VideoData
+} from '@/types';
+import { checkBrandSafety } from '@/utils/brandSafety';
+import { extractVideoTags, normalizeTag } from '@/utils/videoTags';
+
+const DEFAULT_CONTENT_CAPACITY = 1000;
+const DEFAULT_MAX_PER_CONTENT = 500;
+
+const isNonNegativeNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Fill in defaults and reject budgets, caps and capacities that are not non-negative numbers
+export const resolveAllocationRequest = (
+  input: Partial<AllocationRequest>
+): { request: Required<AllocationRequest>; error?: string } => {
+  const request: Required<AllocationRequest> = {
+    ads: input.ads || [],
+    contentCapacity: input.contentCapacity || {},
+    defaultContentCapacity: input.defaultContentCapacity ?? DEFAULT_CONTENT_CAPACITY,
+    defaultMaxPerContent: input.defaultMaxPerContent ?? DEFAULT_MAX_PER_CONTENT,
+    minScore: input.minScore ?? 0,
+    competitorGroups: input.competitorGroups || []
+  };
+
+  if (!Array.isArray(request.ads) || request.ads.length === 0) {
+    return { request, error: 'ads must be a non-empty array' };
+  }
+  if (request.ads.some(ad => typeof ad?.adId !== 'string' || !isNonNegativeNumber(ad.budget)
+    || (ad.maxPerContent !== undefined && !isNonNegativeNumber(ad.maxPerContent)))) {
+    return { request, error: 'Every ad needs an adId, a non-negative budget and an optional non-negative maxPerContent' };
+  }
+  if (new Set(request.ads.map(ad => ad.adId)).size !== request.ads.length) {
+    return { request, error: 'Every adId may appear only once' };
+  }
+  if (!isNonNegativeNumber(request.defaultContentCapacity) || !isNonNegativeNumber(request.defaultMaxPerContent)
+    || !Object.values(request.contentCapacity).every(isNonNegativeNumber)) {
+    return { request, error: 'Capacities and caps must be non-negative numbers' };
+  }
+  if (!(request.minScore >= 0 && request.minScore <= 1)) {
+    return { request, error: 'minScore must be between 0 and 1' };
+  }
+  if (!Array.isArray(request.competitorGroups) || request.competitorGroups.some(group =>
+    !Array.isArray(group) || group.some(brand => typeof brand !== 'string'))) {
+    return { request, error: 'competitorGroups must be an array of brand lists' };
+  }
+
+  return { request };
+};
+
+// Whether two ads may not share a content video. Ads of the same brand never compete.
+const buildCompetitorCheck = (ads: Map<string, VideoData>, competitorGroups: string[][]) => {
+  const tagsById = new Map(Array.from(ads.values()).map(ad => [ad._id, extractVideoTags(ad.user_metadata)]));
+  const groups = competitorGroups.map(group => new Set(group.map(normalizeTag)));
+
+  return (adA: string, adB: string) => {
+    const a = tagsById.get(adA);
+    const b = tagsById.get(adB);
+    if (!a || !b || a.brands.length === 0 || b.brands.length === 0) return false;
+    if (a.brands.some(brand => b.brands.includes(brand))) return false;
+
+    if (groups.length > 0) {
+      return groups.some(group => a.brands.some(brand => group.has(brand)) && b.brands.some(brand => group.has(brand)));
+    }
+    return a.topic.some(topic => b.topic.includes(topic));
+  };
+};
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  flow: number;
+  // Position of the paired residual edge in graph[to]
+  reverse: number;
+}
+
+// Flow below this is treated as 0
+const EPSILON = 1e-9;
+
+// Maximum-weight flow by successive shortest paths (Bellman-Ford queue, since costs are negative). Augmenting
+// stops once the cheapest path no longer lowers the cost, so the result maximizes -cost × flow rather than flow.
+const solveMaxWeightFlow = (graph: FlowEdge[][], source: number, sink: number) => {
+  for (;;) {
+    const distance = new Array<number>(graph.length).fill(Infinity);
+    const previous = new Array<[number, number] | null>(graph.length).fill(null);
+    const queued = new Array<boolean>(graph.length).fill(false);
+    const queue = [source];
+    distance[source] = 0;
+    queued[source] = true;
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      queued[node] = false;
+      graph[node].forEach((edge, index) => {
+        if (edge.capacity - edge.flow <= EPSILON) return;
+        const next = distance[node] + edge.cost;
+        if (next >= distance[edge.to] - EPSILON) return;
+        distance[edge.to] = next;
+        previous[edge.to] = [node, index];
+        if (!queued[edge.to]) {
+          queue.push(edge.to);
+          queued[edge.to] = true;
+        }
+      });
+    }
+    if (distance[sink] >= -EPSILON) return;
+
+    let amount = Infinity;
+    for (let node = sink; node !== source; node = previous[node]![0]) {
+      const [from, index] = previous[node]!;
+      amount = Math.min(amount, graph[from][index].capacity - graph[from][index].flow);
+    }
+    for (let node = sink; node !== source; node = previous[node]![0]) {
+      const [from, index] = previous[node]!;
+      const edge = graph[from][index];
+      edge.flow += amount;
+      graph[edge.to][edge.reverse].flow -= amount;
+    }
+  }
+};
+
+interface AllocationCandidate {
+  adId: string;
+  contentId: string;
+  score: number;
+  downrankedBy: string[];
+}
+
+// Impressions per candidate that maximize total alignment under the budgets, per-content caps and capacities.
+// Network: source → ad (budget) → content (per-content cap, cost -score) → sink (capacity).
+const optimalImpressions = (candidates: AllocationCandidate[], request: Required<AllocationRequest>, capacities: Map<string, number>) => {
+  const adNodes = new Map(request.ads.map((ad, index) => [ad.adId, index + 2]));
+  const contentNodes = new Map(Array.from(capacities.keys()).map((contentId, index) => [contentId, request.ads.length + index + 2]));
+  const graph: FlowEdge[][] = Array.from({ length: request.ads.length + capacities.size + 2 }, () => []);
+  const addEdge = (from: number, to: number, capacity: number, cost: number) => {
+    graph[from].push({ to, capacity, cost, flow: 0, reverse: graph[to].length });
+    graph[to].push({ to: from, capacity: 0, cost: -cost, flow: 0, reverse: graph[from].length - 1 });
+    return graph[from][graph[from].length - 1];
+  };
+
+  const source = 0;
+  const sink = 1;
+  request.ads.forEach(ad => addEdge(source, adNodes.get(ad.adId)!, ad.budget, 0));
+  capacities.forEach((capacity, contentId) => addEdge(contentNodes.get(contentId)!, sink, capacity, 0));
+  const pairEdges = candidates.map(candidate => {
+    const cap = request.ads.find(ad => ad.adId === candidate.adId)!.maxPerContent ?? request.defaultMaxPerContent;
+    return addEdge(adNodes.get(candidate.adId)!, contentNodes.get(candidate.contentId)!, cap, -candidate.score);
+  });
+
+  solveMaxWeightFlow(graph, source, sink);
+  return pairEdges.map(edge => (edge.flow > EPSILON ? edge.flow : 0));
+};
+
+// Allocation over the match matrix that maximizes total alignment (score × impressions) within each ad's budget,
+// its per-content cap and each video's capacity, solved as a min-cost flow. Competitor separation is not a flow
+// constraint, so it is applied on top: where a video holds competing brands, the pair adding less alignment
+// there is ruled out and the flow is solved again, until no video holds competitors.
+// Brand-safety rules apply as in contextual analysis: excluded pairs are never used and down-ranked pairs
+// compete with their reduced score.
+export const allocateInventory = (
+  matrix: MatchMatrix,
+  ads: Map<string, VideoData>,
+  contents: Map<string, VideoData>,
+  rules: BrandSafetyRule[],
+  taxonomy: Taxonomy,
+  request: Required<AllocationRequest>
+): AllocationPlan => {
+  const competes = buildCompetitorCheck(ads, request.competitorGroups);
+  const inputs = new Map(request.ads.map(ad => [ad.adId, ad]));
+  const capacities = new Map(matrix.contents.map(content => [
+    content.id,
+    request.contentCapacity[content.id] ?? request.defaultContentCapacity
+  ]));
+  const blockedBy = new Map(request.ads.map(ad => [ad.adId, { contentCapacity: 0, competitor: 0, minScore: 0, brandSafety: 0 }]));
+
+  const usable: AllocationCandidate[] = [];
+  matrix.cells
+    .filter(cell => inputs.has(cell.adId) && capacities.has(cell.contentId))
+    .forEach(cell => {
+      const { exclusion, multiplier, downrankedBy } = checkBrandSafety(rules, ads.get(cell.adId), contents.get(cell.contentId), taxonomy);
+      const score = cell.score * multiplier;
+      if (exclusion) {
+        blockedBy.get(cell.adId)!.brandSafety++;
+      } else if (score < request.minScore) {
+        blockedBy.get(cell.adId)!.minScore++;
+      } else if (score > 0) {
+        usable.push({ adId: cell.adId, contentId: cell.contentId, score, downrankedBy });
+      }
+    });
+
+  const pairKey = (adId: string, contentId: string) => `${adId}:${contentId}`;
+  const separated = new Set<string>();
+  let placements: AllocationPlacement[] = [];
+  for (;;) {
+    const candidates = usable.filter(candidate => !separated.has(pairKey(candidate.adId, candidate.contentId)));
+    const impressions = optimalImpressions(candidates, request, capacities);
+    placements = candidates
+      .map((candidate, index) => ({
+        adId: candidate.adId,
+        contentId: candidate.contentId,
+        impressions: impressions[index],
+        score: candidate.score,
+        ...(candidate.downrankedBy.length > 0 && { downrankedBy: candidate.downrankedBy })
+      }))
+      .filter(placement => placement.impressions > 0);
+
+    // In each video keep the most valuable placements that do not compete with one already kept
+    const conflicts: AllocationPlacement[] = [];
+    const placementsByContent = new Map<string, AllocationPlacement[]>();
+    placements.forEach(placement => {
+      placementsByContent.set(placement.contentId, [...(placementsByContent.get(placement.contentId) || []), placement]);
+    });
+    placementsByContent.forEach(contentPlacements => {
+      const kept: AllocationPlacement[] = [];
+      contentPlacements
+        .sort((a, b) => b.score * b.impressions - a.score * a.impressions)
+        .forEach(placement => {
+          if (kept.some(other => competes(other.adId, placement.adId))) {
+            conflicts.push(placement);
+          } else {
+            kept.push(placement);
+          }
+        });
+    });
+    if (conflicts.length === 0) break;
+    conflicts.forEach(conflict => separated.add(pairKey(conflict.adId, conflict.contentId)));
+  }
+
+  const allocated = new Map<string, number>();
+  const used = new Map<string, number>();
+  placements.forEach(placement => {
+    allocated.set(placement.adId, (allocated.get(placement.adId) || 0) + placement.impressions);
+    used.set(placement.contentId, (used.get(placement.contentId) || 0) + placement.impressions);
+  });
+  usable.forEach(candidate => {
+    const blocked = blockedBy.get(candidate.adId)!;
+    if (separated.has(pairKey(candidate.adId, candidate.contentId))) {
+      blocked.competitor++;
+    } else if ((used.get(candidate.contentId) || 0) >= capacities.get(candidate.contentId)! - EPSILON) {
+      blocked.contentCapacity++;
+    }
+  });
+
+  const scoredAds = new Set(matrix.cells.map(cell => cell.adId));
+  const shortfalls: AllocationShortfall[] = request.ads
+    .filter(ad => ad.budget - (allocated.get(ad.adId) || 0) > EPSILON)
+    .map(ad => ({
+      adId: ad.adId,
+      budget: ad.budget,
+      allocated: allocated.get(ad.adId) || 0,
+      shortfall: ad.budget - (allocated.get(ad.adId) || 0),
+      blockedBy: blockedBy.get(ad.adId)!,
+      unscored: !scoredAds.has(ad.adId)
+    }));
+
+  return {
+    matrixId: matrix.id,
+    method: 'min_cost_flow',
+    placements: placements.sort((a, b) => b.score - a.score),
+    totalImpressions: placements.reduce((sum, placement) => sum + placement.impressions, 0),
+    totalAlignment: placements.reduce((sum, placement) => sum + placement.score * placement.impressions, 0),
+    shortfalls,
+    createdAt: new Date().toISOString()
+  };
+};
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { AnalysisRun, AnalysisRunDiff, AnalysisRunDiffEntry, AnalysisRunSummary } from '@/types';
+import { readJsonDocument, updateJsonDocument } from '@/utils/jsonStore';
+
+const RUNS_DOCUMENT = 'analysis-runs';
+// Oldest runs are dropped beyond this so the store file stays small
+const MAX_RUNS = 200;
+
+const getRuns = async () => (await readJsonDocument<AnalysisRun[]>(RUNS_DOCUMENT)) || [];
+
+const summarizeRun = (run: AnalysisRun): AnalysisRunSummary => ({
+  id: run.id,
+  videoId: run.videoId,
+  videoTitle: run.videoTitle,
+  direction: run.direction,
+  fusion: run.fusion,
+  createdAt: run.createdAt,
+  resultCount: run.results.length
+});
+
+// Newest first, optionally only the runs for one video
+export const listAnalysisRuns = async (videoId?: string): Promise<AnalysisRunSummary[]> => {
+  const runs = await getRuns();
+  return runs
+    .filter(run => !videoId || run.videoId === videoId)
+    .map(summarizeRun)
+    .reverse();
+};
+
+export const getAnalysisRun = async (runId: string) => {
+  return (await getRuns()).find(run => run.id === runId) || null;
+};
+
+export const saveAnalysisRun = async (input: Omit<AnalysisRun, 'id' | 'createdAt'>): Promise<AnalysisRun> => {
+  const run: AnalysisRun = { ...input, id: randomUUID(), createdAt: new Date().toISOString() };
+  await updateJsonDocument<AnalysisRun[]>(RUNS_DOCUMENT, runs => [...(runs || []), run].slice(-MAX_RUNS));
+  return run;
+};
+
+// Compare the ranked results of two runs, ordered by the newer ranking with dropped videos last
+export const diffAnalysisRuns = (from: AnalysisRun, to: AnalysisRun): AnalysisRunDiff => {
+  const ranking = (run: AnalysisRun) => new Map(
+    run.results
+      .filter(result => result.metadata?.tl_video_id)
+      .map((result, index) => [result.metadata!.tl_video_id, { rank: index + 1, result }])
+  );
+  const fromRanking = ranking(from);
+  const toRanking = ranking(to);
+
+  const entries: AnalysisRunDiffEntry[] = [];
+  toRanking.forEach(({ rank, result }, videoId) => {
+    const previous = fromRanking.get(videoId);
+    entries.push({
+      videoId,
+      title: (result.metadata?.video_title || result.metadata?.video_file) as string | undefined,
+      fromRank: previous?.rank,
+      toRank: rank,
+      fromScore: previous?.result.score,
+      toScore: result.score,
+      change: !previous ? 'new' : previous.rank > rank ? 'up' : previous.rank < rank ? 'down' : 'same'
+    });
+  });
+  fromRanking.forEach(({ rank, result }, videoId) => {
+    if (toRanking.has(videoId)) return;
+    entries.push({
+      videoId,
+      title: (result.metadata?.video_title || result.metadata?.video_file) as string | undefined,
+      fromRank: rank,
+      fromScore: result.score,
+      change: 'dropped'
+    });
+  });
+
+  return { from: summarizeRun(from), to: summarizeRun(to), entries };
+};
@@ -0,0 +1,86 @@
+import { AudienceFit, TagCategory } from '@/types';
+
+// Ages above this are treated as one open-ended bucket
+const MAX_AGE = 99;
+
+const AGE_KEYWORDS: Record<string, [number, number]> = {
+  kids: [0, 12],
+  children: [0, 12],
+  teens: [13, 17],
+  teenagers: [13, 17],
+  'young adults': [18, 34],
+  adults: [18, MAX_AGE],
+  seniors: [65, MAX_AGE],
+  'all ages': [0, MAX_AGE]
+};
+
+const GENDER_VALUES: Record<string, 'male' | 'female' | 'all'> = {
+  male: 'male',
+  males: 'male',
+  men: 'male',
+  man: 'male',
+  female: 'female',
+  females: 'female',
+  women: 'female',
+  woman: 'female',
+  all: 'all',
+  both: 'all',
+  unisex: 'all',
+  everyone: 'all',
+  mixed: 'all'
+};
+
+// "18-25", "25 to 34", "55+", "65 and over", "under 18" or a known keyword; null for anything else
+export const parseAgeRange = (tag: string): [number, number] | null => {
+  if (AGE_KEYWORDS[tag]) return AGE_KEYWORDS[tag];
+
+  const range = tag.match(/(\d+)\s*(?:-|–|to)\s*(\d+)/);
+  if (range) return [Number(range[1]), Number(range[2])];
+
+  const openEnded = tag.match(/(\d+)\s*(?:\+|and over|and older|and up)/);
+  if (openEnded) return [Number(openEnded[1]), MAX_AGE];
+
+  const under = tag.match(/(?:under|below)\s*(\d+)/);
+  if (under) return [0, Number(under[1]) - 1];
+
+  return null;
+};
+
+const agesOf = (tags: string[]) => {
+  const ages = new Set<number>();
+  tags.forEach(tag => {
+    const range = parseAgeRange(tag);
+    if (!range) return;
+    for (let age = Math.max(0, range[0]); age <= Math.min(MAX_AGE, range[1]); age++) ages.add(age);
+  });
+  return ages;
+};
+
+const gendersOf = (tags: string[]) => new Set(tags.map(tag => GENDER_VALUES[tag]).filter(Boolean));
+
+// How well a content video's audience matches an ad's target demographics.
+// Each component is null when either video lacks comparable tags, and unknown components never fail the overlap check.
+export const audienceFit = (
+  adTags: Record<TagCategory, string[]>,
+  contentTags: Record<TagCategory, string[]>
+): AudienceFit => {
+  const adAges = agesOf(adTags.age);
+  const contentAges = agesOf(contentTags.age);
+  const age = adAges.size > 0 && contentAges.size > 0
+    ? Array.from(adAges).filter(value => contentAges.has(value)).length / adAges.size
+    : null;
+
+  const adGenders = gendersOf(adTags.gender);
+  const contentGenders = gendersOf(contentTags.gender);
+  const gender = adGenders.size > 0 && contentGenders.size > 0
+    ? adGenders.has('all') || contentGenders.has('all') || Array.from(adGenders).some(value => contentGenders.has(value)) ? 1 : 0
+    : null;
+
+  const known = [age, gender].filter((value): value is number => value !== null);
+  return {
+    score: known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null,
+    age,
+    gender,
+    overlaps: known.every(value => value > 0)
+  };
+};
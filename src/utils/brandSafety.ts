@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import {
+  BrandSafetyAction,
+  BrandSafetyResponse,
+  BrandSafetyRule,
+  EmbeddingSearchResult,
+  ExcludedSearchResult,
+  Taxonomy,
+  VideoData
+} from '@/types';
+import { readJsonDocument, updateJsonDocument } from '@/utils/jsonStore';
+import { TAG_CATEGORIES, extractVideoTags, normalizeTag } from '@/utils/videoTags';
+import { canonicalTag } from '@/utils/tagSimilarity';
+
+const RULES_DOCUMENT = 'brand-safety-rules';
+const BRAND_SAFETY_ACTIONS: BrandSafetyAction[] = ['exclude', 'include', 'downrank'];
+const DEFAULT_PENALTY = 0.5;
+
+export const getBrandSafetyRules = async (): Promise<BrandSafetyRule[]> => {
+  return (await readJsonDocument<BrandSafetyRule[]>(RULES_DOCUMENT)) || [];
+};
+
+export const appendBrandSafetyRule = (rule: BrandSafetyRule) =>
+  updateJsonDocument<BrandSafetyRule[]>(RULES_DOCUMENT, rules => [...(rules || []), rule]);
+
+// False when no rule has the ID
+export const removeBrandSafetyRule = async (id: string) => {
+  let found = false;
+  await updateJsonDocument<BrandSafetyRule[]>(RULES_DOCUMENT, rules => {
+    found = (rules || []).some(rule => rule.id === id);
+    return (rules || []).filter(rule => rule.id !== id);
+  });
+  return found;
+};
+
+// Validate a rule from a request body and fill in its ID and defaults
+export const createBrandSafetyRule = (input: Partial<BrandSafetyRule>): { rule?: BrandSafetyRule; error?: string } => {
+  const { name, adId, brand, category, values, action, penalty } = input;
+
+  if (!name || typeof name !== 'string') {
+    return { error: 'name is required' };
+  }
+  if (!category || !TAG_CATEGORIES.includes(category)) {
+    return { error: `Unsupported category: ${category}` };
+  }
+  if (!action || !BRAND_SAFETY_ACTIONS.includes(action)) {
+    return { error: `Unsupported action: ${action}` };
+  }
+  if (!Array.isArray(values) || values.filter(value => typeof value === 'string' && value.trim()).length === 0) {
+    return { error: 'values must be a non-empty array of strings' };
+  }
+  if (action === 'downrank' && penalty !== undefined && !(penalty >= 0 && penalty < 1)) {
+    return { error: 'penalty must be at least 0 and below 1' };
+  }
+
+  return {
+    rule: {
+      id: randomUUID(),
+      name: name.trim(),
+      adId: adId || undefined,
+      brand: brand ? normalizeTag(brand) : undefined,
+      category,
+      values: Array.from(new Set(values.filter(value => typeof value === 'string').map(normalizeTag).filter(Boolean))),
+      action,
+      penalty: action === 'downrank' ? penalty ?? DEFAULT_PENALTY : undefined,
+      createdAt: new Date().toISOString()
+    }
+  };
+};
+
+// Rules that apply to an ad: global ones, the ad's own, and those for any of its brands
+const rulesForAd = (rules: BrandSafetyRule[], ad: VideoData | undefined, taxonomy: Taxonomy) => {
+  const adBrands = extractVideoTags(ad?.user_metadata).brands.map(brand => canonicalTag(taxonomy, 'brands', brand));
+  return rules.filter(rule => {
+    if (rule.adId && rule.adId !== ad?._id) return false;
+    if (rule.brand && !adBrands.includes(canonicalTag(taxonomy, 'brands', rule.brand))) return false;
+    return true;
+  });
+};
+
+// The verdict of the rules for one ad/content pair: the first rule that excludes it, or the score multiplier
+// and names of the down-ranking rules that matched. Rule values and content tags are compared through the
+// taxonomy, so a synonym matches its canonical value.
+export const checkBrandSafety = (
+  rules: BrandSafetyRule[],
+  ad: VideoData | undefined,
+  content: VideoData | undefined,
+  taxonomy: Taxonomy
+): { exclusion?: { rule: BrandSafetyRule; matchedValues: string[] }; multiplier: number; downrankedBy: string[] } => {
+  const contentTags = extractVideoTags(content?.user_metadata);
+  let multiplier = 1;
+  const downrankedBy: string[] = [];
+
+  for (const rule of rulesForAd(rules, ad, taxonomy)) {
+    const canonical = (tag: string) => canonicalTag(taxonomy, rule.category, tag);
+    const ruleValues = new Set(rule.values.map(canonical));
+    const matchedValues = contentTags[rule.category].filter(tag => ruleValues.has(canonical(tag)));
+
+    if (rule.action === 'exclude' && matchedValues.length > 0) {
+      return { exclusion: { rule, matchedValues }, multiplier, downrankedBy };
+    }
+    if (rule.action === 'include' && matchedValues.length === 0) {
+      return { exclusion: { rule, matchedValues }, multiplier, downrankedBy };
+    }
+    if (rule.action === 'downrank' && matchedValues.length > 0) {
+      multiplier *= rule.penalty ?? DEFAULT_PENALTY;
+      downrankedBy.push(rule.name);
+    }
+  }
+
+  return { multiplier, downrankedBy };
+};
+
+// Filter or down-rank results for ad/content pairs. Excluded results are returned with the first rule that excluded them.
+export const applyBrandSafetyRules = (
+  results: EmbeddingSearchResult[],
+  rules: BrandSafetyRule[],
+  taxonomy: Taxonomy,
+  pairFor: (result: EmbeddingSearchResult) => { ad?: VideoData; content?: VideoData }
+): BrandSafetyResponse => {
+  const kept: EmbeddingSearchResult[] = [];
+  const excluded: ExcludedSearchResult[] = [];
+
+  results.forEach(result => {
+    const { ad, content } = pairFor(result);
+    const { exclusion, multiplier, downrankedBy } = checkBrandSafety(rules, ad, content, taxonomy);
+
+    if (exclusion) {
+      excluded.push({ result, ...exclusion });
+    } else {
+      kept.push(downrankedBy.length > 0 ? { ...result, score: result.score * multiplier, downrankedBy } : result);
+    }
+  });
+
+  return {
+    results: kept.sort((a, b) => b.score - a.score),
+    excluded
+  };
+};
@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { Campaign, CampaignAnalysis, CampaignContentMatch, FusionOptions, MatchMatrixCell } from '@/types';
+import { readJsonDocument, updateJsonDocument } from '@/utils/jsonStore';
+import { listIndexVideos } from '@/utils/twelveLabs';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { scoreAd, videoTitle } from '@/utils/matchMatrix';
+import { fetchClipVectorsByVideo } from '@/utils/pairScoring';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+
+const CAMPAIGNS_DOCUMENT = 'campaigns';
+const MAX_CAMPAIGN_ADS = 10;
+// Ads scored at the same time; each embeds its metadata terms and fetches its clip vectors
+const CAMPAIGN_CONCURRENCY = 2;
+// A content video counts toward an ad's coverage when it is among the ad's best-scoring content
+const COVERAGE_TOP_N = 10;
+
+export const getCampaigns = async (): Promise<Campaign[]> => {
+  return (await readJsonDocument<Campaign[]>(CAMPAIGNS_DOCUMENT)) || [];
+};
+
+export const appendCampaign = (campaign: Campaign) =>
+  updateJsonDocument<Campaign[]>(CAMPAIGNS_DOCUMENT, campaigns => [...(campaigns || []), campaign]);
+
+// False when no campaign has the ID
+export const removeCampaign = async (id: string) => {
+  let found = false;
+  await updateJsonDocument<Campaign[]>(CAMPAIGNS_DOCUMENT, campaigns => {
+    found = (campaigns || []).some(campaign => campaign.id === id);
+    return (campaigns || []).filter(campaign => campaign.id !== id);
+  });
+  return found;
+};
+
+// Validate a campaign from a request body and fill in its ID
+export const createCampaign = (input: Partial<Campaign>): { campaign?: Campaign; error?: string } => {
+  const { name, adIds } = input;
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+  if (!Array.isArray(adIds) || adIds.some(adId => typeof adId !== 'string')) {
+    return { error: 'adIds must be an array of ad video IDs' };
+  }
+  const uniqueAdIds = Array.from(new Set(adIds));
+  if (uniqueAdIds.length === 0 || uniqueAdIds.length > MAX_CAMPAIGN_ADS) {
+    return { error: `A campaign needs between 1 and ${MAX_CAMPAIGN_ADS} ads` };
+  }
+
+  return {
+    campaign: {
+      id: randomUUID(),
+      name: name.trim(),
+      adIds: uniqueAdIds,
+      createdAt: new Date().toISOString()
+    }
+  };
+};
+
+// Score every content video against the campaign as a whole: the best ad variant per content and how many ads found it
+export const analyzeCampaign = async (
+  campaign: Campaign,
+  adsIndexId: string,
+  contentIndexId: string,
+  fusion: Required<FusionOptions>
+): Promise<CampaignAnalysis> => {
+  const [adVideos, contents, taxonomy, contentClips] = await Promise.all([
+    listIndexVideos(adsIndexId),
+    listIndexVideos(contentIndexId),
+    getTaxonomy(),
+    fetchClipVectorsByVideo(getVectorStore(), contentIndexId)
+  ]);
+  const ads = campaign.adIds
+    .map(adId => adVideos.find(video => video._id === adId))
+    .filter(video => video !== undefined);
+
+  const failures: CampaignAnalysis['failures'] = campaign.adIds
+    .filter(adId => !ads.some(ad => ad._id === adId))
+    .map(adId => ({ adId, reason: 'Ad not found in the ads index' }));
+
+  const { results: cellsPerAd } = await mapWithConcurrency(ads, CAMPAIGN_CONCURRENCY, async ad => {
+    try {
+      return await scoreAd(ad, contents, contentClips, { adsIndexId, contentIndexId, fusion }, taxonomy);
+    } catch (error) {
+      console.error(`❌ Campaign ${campaign.id} failed for ad ${ad._id}:`, error);
+      failures.push({ adId: ad._id, reason: error instanceof Error ? error.message : 'Unknown error' });
+      return [] as MatchMatrixCell[];
+    }
+  });
+
+  const scoredAdCount = ads.length - failures.filter(failure => ads.some(ad => ad._id === failure.adId)).length;
+  const cellsByContent = new Map<string, MatchMatrixCell[]>();
+  const topContent = new Set<string>();
+  cellsPerAd.forEach(cells => {
+    [...(cells || [])]
+      .sort((a, b) => b.score - a.score)
+      .forEach((cell, rank) => {
+        cellsByContent.set(cell.contentId, [...(cellsByContent.get(cell.contentId) || []), cell]);
+        if (rank < COVERAGE_TOP_N) topContent.add(`${cell.adId}:${cell.contentId}`);
+      });
+  });
+
+  const titles = new Map(contents.map(video => [video._id, videoTitle(video)]));
+  const results: CampaignContentMatch[] = Array.from(cellsByContent.entries()).map(([contentId, cells]) => {
+    const best = cells.reduce((top, cell) => (cell.score > top.score ? cell : top));
+    return {
+      contentId,
+      title: titles.get(contentId) || `Video ${contentId}`,
+      bestAdId: best.adId,
+      bestScore: best.score,
+      meanScore: cells.reduce((sum, cell) => sum + cell.score, 0) / Math.max(1, scoredAdCount),
+      coverage: cells.filter(cell => topContent.has(`${cell.adId}:${cell.contentId}`)).length / Math.max(1, scoredAdCount),
+      adScores: cells.map(cell => ({ adId: cell.adId, score: cell.score }))
+    };
+  });
+
+  return {
+    campaignId: campaign.id,
+    fusion,
+    ads: ads.map(ad => ({ id: ad._id, title: videoTitle(ad) })),
+    results: results.sort((a, b) => b.bestScore - a.bestScore),
+    failures,
+    analyzedAt: new Date().toISOString()
+  };
+};
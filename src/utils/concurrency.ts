@@ -0,0 +1,28 @@
+// Run a task per item with at most `limit` in flight.
+// Items not started before `deadline` (epoch ms) are skipped and left undefined in the results.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  deadline?: number
+): Promise<{ results: Array<R | undefined>; skipped: number }> => {
+  const results: Array<R | undefined> = new Array(items.length);
+  let nextIndex = 0;
+  let skipped = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      if (deadline !== undefined && Date.now() > deadline) {
+        skipped++;
+        continue;
+      }
+      results[index] = await task(items[index]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return { results, skipped };
+};
@@ -0,0 +1,37 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Destructive vector operations must be confirmed with a token issued by a dry run of the same request.
+// The token is an HMAC over the request and its expiry, so any instance sharing the secret can check it.
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Without VECTOR_RESET_SECRET, tokens only verify on the instance that issued them
+const fallbackSecret = randomBytes(32).toString('hex');
+let warnedAboutSecret = false;
+const confirmationSecret = () => {
+  if (process.env.VECTOR_RESET_SECRET) return process.env.VECTOR_RESET_SECRET;
+  if (!warnedAboutSecret) {
+    console.warn('⚠️ VECTOR_RESET_SECRET is not set; confirmation tokens are only valid on this instance');
+    warnedAboutSecret = true;
+  }
+  return fallbackSecret;
+};
+
+const signConfirmation = (requestKey: string, expiresAt: number) =>
+  createHmac('sha256', confirmationSecret()).update(`${expiresAt}:${requestKey}`).digest('base64url');
+
+export const issueConfirmationToken = (requestKey: string) => {
+  const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+  return { token: `${expiresAt}.${signConfirmation(requestKey, expiresAt)}`, expiresAt };
+};
+
+// Tokens are only valid for the exact request they were issued for, until they expire
+export const verifyConfirmationToken = (token: string | undefined, requestKey: string) => {
+  if (!token) return false;
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(signConfirmation(requestKey, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
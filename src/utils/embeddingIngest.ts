@@ -0,0 +1,162 @@
+import { Segment, UpsertReport, VectorRecord, VideoDetailWithEmbedding } from '@/types';
+import { buildVectorId, DEFAULT_EMBEDDING_OPTION } from '@/utils/vectorIds';
+import { fetchVideoEmbedding, getCurrentEmbeddingModel } from '@/utils/twelveLabs';
+import { getVectorStore } from '@/utils/vectorStore';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
+import { upsertInBatches } from '@/utils/vectorUpsert';
+
+export const EXPECTED_VECTOR_DIMENSION = 1024;
+const SUPPORTED_SCOPES = ['clip', 'video'];
+const SUPPORTED_OPTIONS = ['visual-text', 'audio'];
+
+// Resolve title and filename from the video's system metadata, falling back to the video ID
+export const resolveVideoNames = (video: VideoDetailWithEmbedding, videoId: string) => {
+  let filename = video.system_metadata?.filename || '';
+  let videoTitle = video.system_metadata?.video_title || '';
+
+  if (!filename) {
+    filename = videoTitle ? `${videoTitle}.mp4` : `${videoId}.mp4`;
+  }
+
+  if (!videoTitle) {
+    videoTitle = filename.split('.')[0] || videoId;
+  }
+
+  return { filename, videoTitle };
+};
+
+// Returns a list of problems; an empty list means every segment can be stored
+export const validateSegments = (segments: Segment[] | undefined) => {
+  if (!segments || segments.length === 0) {
+    return ['Embedding has no segments'];
+  }
+
+  const errors: string[] = [];
+  segments.forEach((segment, index) => {
+    if (!SUPPORTED_SCOPES.includes(segment.embedding_scope)) {
+      errors.push(`Segment ${index}: unsupported scope '${segment.embedding_scope}'`);
+    }
+    if (segment.embedding_option && !SUPPORTED_OPTIONS.includes(segment.embedding_option)) {
+      errors.push(`Segment ${index}: unsupported embedding option '${segment.embedding_option}'`);
+    }
+    if (!Array.isArray(segment.float) || segment.float.length !== EXPECTED_VECTOR_DIMENSION) {
+      errors.push(`Segment ${index}: expected ${EXPECTED_VECTOR_DIMENSION} dimensions, got ${segment.float?.length ?? 0}`);
+    } else if (segment.float.some(value => !Number.isFinite(value))) {
+      errors.push(`Segment ${index}: vector contains non-numeric values`);
+    }
+    if (!Number.isFinite(segment.start_offset_sec) || !Number.isFinite(segment.end_offset_sec)) {
+      errors.push(`Segment ${index}: missing start or end offset`);
+    }
+  });
+
+  return errors;
+};
+
+export const buildVectorRecords = (
+  video: VideoDetailWithEmbedding,
+  indexId: string,
+  videoId: string
+): VectorRecord[] => {
+  const segments: Segment[] = video.embedding.video_embedding.segments;
+  const { filename, videoTitle } = resolveVideoNames(video, videoId);
+  const embeddingModel = video.embedding.model_name || getCurrentEmbeddingModel();
+
+  // Determine category based on the index ID
+  const category = indexId === process.env.NEXT_PUBLIC_ADS_INDEX_ID ? 'ad' : 'content';
+
+  return segments.map((segment, index) => ({
+    // IDs are keyed on the TwelveLabs index/video so titles can never collide
+    id: buildVectorId({
+      indexId,
+      videoId,
+      scope: segment.embedding_scope,
+      startOffset: segment.start_offset_sec,
+      embeddingOption: segment.embedding_option
+    }),
+    values: segment.float,
+    metadata: {
+      video_file: filename,
+      video_title: videoTitle,
+      video_segment: index + 1,
+      start_time: segment.start_offset_sec,
+      end_time: segment.end_offset_sec,
+      scope: segment.embedding_scope,
+      tl_video_id: videoId,
+      tl_index_id: indexId,
+      category,
+      segment_total: segments.length,
+      embedding_model: embeddingModel,
+      embedding_option: segment.embedding_option || DEFAULT_EMBEDDING_OPTION
+    }
+  }));
+};
+
+export interface IngestResult {
+  success: boolean;
+  status: number;
+  stored: number;
+  vectorIds: string[];
+  model?: string;
+  upsert?: UpsertReport;
+  error?: string;
+  details?: string | string[];
+}
+
+// Fetch a video's embeddings from TwelveLabs, validate them and upsert them into the vector store
+export const ingestVideoEmbeddings = async (indexId: string, videoId: string): Promise<IngestResult> => {
+  const { video, status, details } = await fetchVideoEmbedding(indexId, videoId);
+
+  if (!video) {
+    return { success: false, status, stored: 0, vectorIds: [], error: 'Failed to fetch embedding from TwelveLabs', details };
+  }
+
+  if (!video.embedding?.video_embedding) {
+    return { success: false, status: 404, stored: 0, vectorIds: [], error: `No embedding data found for video ${videoId}` };
+  }
+
+  const validationErrors = validateSegments(video.embedding.video_embedding.segments);
+  if (validationErrors.length > 0) {
+    return { success: false, status: 422, stored: 0, vectorIds: [], error: 'Invalid embedding data', details: validationErrors };
+  }
+
+  const vectors = buildVectorRecords(video, indexId, videoId);
+  const vectorStore = getVectorStore();
+
+  // Failed batches are retried; if any still fail the written ones are rolled back
+  const upsert = await upsertInBatches(vectorStore, vectors);
+  if (upsert.failed > 0) {
+    return {
+      success: false,
+      status: 503,
+      stored: upsert.stored,
+      vectorIds: [],
+      upsert,
+      error: upsert.rolledBack
+        ? `Failed to store ${upsert.failed} vectors; stored batches were rolled back`
+        : `Failed to store ${upsert.failed} vectors`
+    };
+  }
+
+  return {
+    upsert,
+    success: true,
+    status: 200,
+    stored: vectors.length,
+    vectorIds: vectors.map(vector => vector.id),
+    model: String(vectors[0].metadata?.embedding_model)
+  };
+};
+
+// Re-ingest a video and drop its old vectors whose IDs were not overwritten
+export const replaceVideoEmbeddings = async (indexId: string, videoId: string): Promise<IngestResult> => {
+  const vectorStore = getVectorStore();
+  const before = await getVideoVectorManifest(vectorStore, indexId, videoId);
+  const result = await ingestVideoEmbeddings(indexId, videoId);
+
+  if (result.success) {
+    const newIds = new Set(result.vectorIds);
+    await vectorStore.deleteIds(before.vectorIds.filter(id => !newIds.has(id)));
+  }
+
+  return result;
+};
@@ -0,0 +1,407 @@
+import axios from 'axios';
+import {
+  EmbeddingSearchResult,
+  EmbeddingSearchTarget,
+  SegmentMatch,
+  VectorMatch,
+  VectorRecord,
+  VectorStore,
+  VideoAggregationMode,
+  VideoData,
+  VideoSearchAggregation,
+  VideoToVideoSearchResponse
+} from '@/types';
+import { getVideoVectorManifest } from '@/utils/vectorManifest';
+import { parseVectorId } from '@/utils/vectorIds';
+import { getCurrentEmbeddingModel, getTwelveLabsConfig } from '@/utils/twelveLabs';
+import {
+  TargetVideoScores,
+  combineTargetMatches,
+  combineTargetScores,
+  getTargetKey,
+  maxScoresByVideo
+} from '@/utils/embeddingTargets';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { meanVector } from '@/utils/vectorMath';
+
+// Cap on source vectors fetched per target; Pinecone fetches at most 100 IDs at a time
+const MAX_SOURCE_VECTORS = 100;
+// Segment pairs kept per result to explain where the videos match
+const MAX_SEGMENT_PAIRS = 5;
+
+const AGGREGATION_MODES: VideoAggregationMode[] = ['max', 'mean_top_k', 'coverage', 'centroid'];
+const DEFAULT_AGGREGATION: Required<VideoSearchAggregation> = { mode: 'max', k: 3 };
+const DEFAULT_SEARCH_CONCURRENCY = 8;
+const MAX_CONCURRENCY = 16;
+const DEFAULT_TIME_BUDGET_MS = 20000;
+// Leaves headroom under the routes' maxDuration to build the response
+const MAX_TIME_BUDGET_MS = 50000;
+// A centroid replaces many clip queries with one, so it casts a wider net
+const CENTROID_TOP_K = 20;
+
+export const resolveVideoSearchAggregation = (
+  input: VideoSearchAggregation | undefined
+): { aggregation: Required<VideoSearchAggregation>; error?: string } => {
+  const aggregation: Required<VideoSearchAggregation> = { ...DEFAULT_AGGREGATION, ...input };
+
+  if (!AGGREGATION_MODES.includes(aggregation.mode)) {
+    return { aggregation, error: `Unsupported aggregation mode: ${aggregation.mode}` };
+  }
+  if (!Number.isInteger(aggregation.k) || aggregation.k < 1) {
+    return { aggregation, error: 'aggregation.k must be a positive integer' };
+  }
+
+  return { aggregation };
+};
+
+// Text embedding of a search term and the model that produced it
+export const embedText = async (searchTerm: string): Promise<{ vector: number[]; model: string }> => {
+  const { apiKey, baseUrl } = getTwelveLabsConfig();
+  const embeddingModel = getCurrentEmbeddingModel();
+
+  const formData = new FormData();
+  formData.append('text', searchTerm);
+  formData.append('text_truncate', 'end');
+  formData.append('model_name', embeddingModel);
+
+  const { data: embedData } = await axios.post(`${baseUrl}/embed`, formData, {
+    headers: {
+      'accept': 'application/json',
+      'Content-Type': 'multipart/form-data',
+      'x-api-key': apiKey,
+    },
+  });
+
+  // extract embedding vector from text_embedding object
+  const textEmbedding = embedData.text_embedding.segments[0].float;
+
+  if (!textEmbedding) {
+    throw new Error('Failed to generate embedding');
+  }
+
+  // Callers only compare against video vectors produced by the same model
+  return { vector: textEmbedding, model: embedData.model_name || embeddingModel };
+};
+
+// Embed a search term and find the closest vectors in an index for each target
+export const searchByText = async (
+  vectorStore: VectorStore,
+  searchTerm: string,
+  indexId: string,
+  targets: EmbeddingSearchTarget[]
+): Promise<EmbeddingSearchResult[]> => {
+  const { vector: textEmbedding, model: textModel } = await embedText(searchTerm);
+
+  // Search each requested modality/scope, then combine per video
+  const matchesByTarget = new Map<string, VectorMatch[]>();
+  for (const target of targets.filter(target => target.weight > 0)) {
+    const matches = await vectorStore.query({
+      vector: textEmbedding,
+      filter: {
+        tl_index_id: indexId,
+        scope: target.scope,
+        embedding_option: target.option,
+        embedding_model: textModel
+      },
+      topK: 10,
+      includeMetadata: true,
+    });
+    matchesByTarget.set(getTargetKey(target), matches);
+  }
+
+  return combineTargetMatches(targets, matchesByTarget) as EmbeddingSearchResult[];
+};
+
+// The tag and title terms a video is searched by
+export const metadataSearchTerms = (video: VideoData) => {
+  // Content videos store their sector as topic_category
+  const sector = video.user_metadata?.sector || video.user_metadata?.topic_category || '';
+  const emotions = video.user_metadata?.emotions || '';
+  return [
+    { method: 'tag', term: `${sector} ${emotions}`.trim() },
+    {
+      method: 'title',
+      term: video.system_metadata?.video_title || video.system_metadata?.filename || `Video ${video._id}`
+    }
+  ].filter(({ term }) => term.length > 0);
+};
+
+// Search an index with a video's tags and title, keeping the best text match per result video
+export const searchByVideoMetadata = async (
+  vectorStore: VectorStore,
+  video: VideoData,
+  indexId: string,
+  targets: EmbeddingSearchTarget[]
+): Promise<EmbeddingSearchResult[]> => {
+  const searchTerms = metadataSearchTerms(video);
+
+  const resultMap = new Map<string, EmbeddingSearchResult>();
+  for (const { method, term } of searchTerms) {
+    try {
+      const results = await searchByText(vectorStore, term, indexId, targets);
+      results.forEach(result => {
+        const resultVideoId = result.metadata?.tl_video_id;
+        if (!resultVideoId) return;
+
+        const existing = resultMap.get(resultVideoId);
+        if (!existing || existing.score < result.score) {
+          resultMap.set(resultVideoId, { ...result, searchMethod: method });
+        }
+      });
+    } catch (error) {
+      console.error(`❌ Error in ${method}-based search for video ${video._id}:`, error);
+    }
+  }
+
+  return Array.from(resultMap.values()).sort((a, b) => b.score - a.score);
+};
+
+interface QueryJob {
+  key: string;
+  target: EmbeddingSearchTarget;
+  vector: number[];
+  topK: number;
+  // Source segment behind the query; the span of all clips for a centroid query
+  source: SegmentMatch['source'];
+}
+
+// Keep the strongest pair per target segment so one moment is not listed several times
+const topSegmentPairs = (pairs: SegmentMatch[]) => {
+  const bestByTarget = new Map<string, SegmentMatch>();
+  pairs.forEach(pair => {
+    const key = `${pair.option}:${pair.target.start_time}`;
+    const existing = bestByTarget.get(key);
+    if (!existing || existing.score < pair.score) bestByTarget.set(key, pair);
+  });
+
+  return Array.from(bestByTarget.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SEGMENT_PAIRS);
+};
+
+const segmentSpan = (metadata?: VectorRecord['metadata']) => ({
+  start_time: Number(metadata?.start_time ?? 0),
+  end_time: Number(metadata?.end_time ?? 0)
+});
+
+// Roll the matches of every clip query for one target up into a score per video
+const aggregateClipMatches = (
+  queryMatches: VectorMatch[][],
+  aggregation: Required<VideoSearchAggregation>
+): TargetVideoScores => {
+  if (aggregation.mode === 'max' || aggregation.mode === 'centroid') {
+    return maxScoresByVideo(queryMatches.flat());
+  }
+
+  // Best score each source clip gave each video
+  const clipScoresByVideo = new Map<string, { scores: number[]; metadata?: VectorMatch['metadata'] }>();
+  queryMatches.forEach(matches => {
+    maxScoresByVideo(matches).forEach(({ score, metadata }, videoId) => {
+      const entry = clipScoresByVideo.get(videoId) || { scores: [], metadata };
+      entry.scores.push(score);
+      clipScoresByVideo.set(videoId, entry);
+    });
+  });
+
+  const scores: TargetVideoScores = new Map();
+  clipScoresByVideo.forEach(({ scores: clipScores, metadata }, videoId) => {
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const score = aggregation.mode === 'mean_top_k'
+      // Missing clips count as 0, so one lucky clip cannot carry a video
+      ? sum(clipScores.sort((a, b) => b - a).slice(0, aggregation.k)) / aggregation.k
+      // coverage: how much of the source video is matched, weighted by match strength
+      : sum(clipScores) / queryMatches.length;
+    scores.set(videoId, { score, metadata });
+  });
+  return scores;
+};
+
+export interface VideoSearchOptions {
+  videoId: string;
+  // Index the source video belongs to
+  sourceIndexId: string;
+  // Index searched for similar videos
+  indexId: string;
+  targets: EmbeddingSearchTarget[];
+  aggregation: Required<VideoSearchAggregation>;
+  concurrency?: number;
+  timeBudgetMs?: number;
+}
+
+export interface VideoSearchOutcome {
+  success: boolean;
+  status: number;
+  response?: VideoToVideoSearchResponse;
+  error?: string;
+  details?: unknown;
+}
+
+// Find videos in one index that look like a video from another, using its stored vectors as queries
+export const searchByVideo = async (
+  vectorStore: VectorStore,
+  options: VideoSearchOptions
+): Promise<VideoSearchOutcome> => {
+  const startedAt = Date.now();
+  const { videoId, sourceIndexId, indexId, targets, aggregation } = options;
+  const activeTargets = targets.filter(target => target.weight > 0);
+
+  const poolSize = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(Number(options.concurrency)) || DEFAULT_SEARCH_CONCURRENCY));
+  const deadline = startedAt + Math.min(MAX_TIME_BUDGET_MS, Math.max(0, Number(options.timeBudgetMs) || DEFAULT_TIME_BUDGET_MS));
+
+  // First, get the original video's embeddings for every requested target directly by ID
+  const manifest = await getVideoVectorManifest(vectorStore, sourceIndexId, videoId);
+  const manifestDoneAt = Date.now();
+
+  const sourceIdsByTarget = new Map<string, string[]>();
+  for (const target of activeTargets) {
+    const ids = manifest.vectorIds.filter(id => {
+      const parts = parseVectorId(id);
+      return parts?.scope === target.scope && parts.embeddingOption === target.option;
+    });
+    sourceIdsByTarget.set(getTargetKey(target), ids.slice(0, MAX_SOURCE_VECTORS));
+  }
+
+  const sourceRecords: Record<string, VectorRecord> = {};
+  const fetched = await Promise.all(Array.from(sourceIdsByTarget.values()).map(ids => vectorStore.fetch(ids)));
+  fetched.forEach(records => Object.assign(sourceRecords, records));
+  const fetchDoneAt = Date.now();
+  const originalVectors = Object.values(sourceRecords);
+
+  // Without stored vectors there is nothing to query with, and no model to filter the matches by
+  if (originalVectors.length === 0) {
+    return {
+      success: false,
+      status: 404,
+      error: 'The source video has no stored embeddings for the requested targets. Ingest it before searching.',
+      details: { videoId, sourceIndexId }
+    };
+  }
+
+  // Refuse to compare vectors from different models; stale videos must be re-embedded first
+  const sourceModels = Array.from(new Set(originalVectors.map(record => record.metadata?.embedding_model)));
+  if (sourceModels.some(model => !model) || sourceModels.length > 1) {
+    return {
+      success: false,
+      status: 409,
+      error: 'Source video embeddings have no single recorded model. Re-embed the video before searching.',
+      details: { videoId, models: sourceModels.filter(Boolean) }
+    };
+  }
+  const sourceModel = sourceModels[0];
+
+  // One query per source vector, or a single averaged query per clip target in centroid mode
+  const jobs: QueryJob[] = [];
+  for (const target of activeTargets) {
+    const key = getTargetKey(target);
+    const records = (sourceIdsByTarget.get(key) || [])
+      .map(id => sourceRecords[id])
+      .filter(record => record?.values && record.values.length > 0);
+    if (records.length === 0) continue;
+
+    if (target.scope === 'clip' && aggregation.mode === 'centroid') {
+      const spans = records.map(record => segmentSpan(record.metadata));
+      jobs.push({
+        key,
+        target,
+        vector: meanVector(records.map(record => record.values))!,
+        topK: CENTROID_TOP_K,
+        source: {
+          start_time: Math.min(...spans.map(span => span.start_time)),
+          end_time: Math.max(...spans.map(span => span.end_time))
+        }
+      });
+      continue;
+    }
+
+    records.forEach(record => jobs.push({
+      key,
+      target,
+      vector: record.values,
+      // A single whole-video vector needs a wider net than many clip vectors
+      topK: target.scope === 'video' ? 10 : 5,
+      source: segmentSpan(record.metadata)
+    }));
+  }
+
+  // Queries that have not started when the budget runs out are skipped, not awaited
+  const { results: jobMatches, skipped } = await mapWithConcurrency(
+    jobs,
+    poolSize,
+    job => vectorStore.query({
+      vector: job.vector,
+      filter: {
+        tl_index_id: indexId,
+        scope: job.target.scope,
+        embedding_option: job.target.option,
+        embedding_model: sourceModel
+      },
+      topK: job.topK,
+      includeMetadata: true,
+    }),
+    deadline
+  );
+  const queryDoneAt = Date.now();
+
+  if (skipped > 0) {
+    console.warn(`⚠️ Video search for ${videoId} hit its time budget; skipped ${skipped} of ${jobs.length} queries`);
+  }
+
+  const queryMatchesByTarget = new Map<string, VectorMatch[][]>();
+  const segmentPairsByVideo = new Map<string, SegmentMatch[]>();
+  jobs.forEach((job, index) => {
+    const matches = jobMatches[index];
+    if (!matches) return;
+    queryMatchesByTarget.set(job.key, [...(queryMatchesByTarget.get(job.key) || []), matches]);
+
+    // Whole-video vectors have no moment to point at, so only clip pairs are kept
+    if (job.target.scope !== 'clip') return;
+    matches.forEach(match => {
+      const matchVideoId = match.metadata?.tl_video_id as string;
+      if (!matchVideoId) return;
+
+      const pairs = segmentPairsByVideo.get(matchVideoId) || [];
+      pairs.push({
+        score: match.score,
+        option: job.target.option,
+        source: job.source,
+        target: segmentSpan(match.metadata)
+      });
+      segmentPairsByVideo.set(matchVideoId, pairs);
+    });
+  });
+
+  const scoresByTarget = new Map<string, TargetVideoScores>();
+  for (const target of activeTargets) {
+    const key = getTargetKey(target);
+    const queryMatches = queryMatchesByTarget.get(key);
+    if (!queryMatches) continue;
+
+    scoresByTarget.set(
+      key,
+      target.scope === 'clip' ? aggregateClipMatches(queryMatches, aggregation) : maxScoresByVideo(queryMatches.flat())
+    );
+  }
+
+  const results = combineTargetScores(targets, scoresByTarget).map(result => ({
+    ...result,
+    matchedSegments: topSegmentPairs(segmentPairsByVideo.get(result.metadata?.tl_video_id as string) || [])
+  })) as EmbeddingSearchResult[];
+
+  return {
+    success: true,
+    status: 200,
+    response: {
+      results,
+      aggregation,
+      timings: {
+        totalMs: Date.now() - startedAt,
+        manifestMs: manifestDoneAt - startedAt,
+        fetchMs: fetchDoneAt - manifestDoneAt,
+        queryMs: queryDoneAt - fetchDoneAt,
+        queries: jobs.length - skipped,
+        skippedQueries: skipped,
+        timedOut: skipped > 0
+      }
+    }
+  };
+};
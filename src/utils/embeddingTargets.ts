@@ -0,0 +1,113 @@
+import { EmbeddingSearchTarget, VectorMatch, VectorRecordMetadata } from '@/types';
+
+const EMBEDDING_OPTIONS = ['visual-text', 'audio'];
+const EMBEDDING_SCOPES = ['clip', 'video'];
+
+// Matches the behaviour before audio and video-scope vectors were searchable
+export const DEFAULT_SEARCH_TARGETS: EmbeddingSearchTarget[] = [
+  { option: 'visual-text', scope: 'clip', weight: 1 }
+];
+
+export const getTargetKey = (target: Pick<EmbeddingSearchTarget, 'option' | 'scope'>) => {
+  return `${target.option}:${target.scope}`;
+};
+
+// Validate targets from a request body; returns an error message or the parsed targets
+export const parseSearchTargets = (input: unknown): { targets: EmbeddingSearchTarget[]; error?: string } => {
+  if (input === undefined || input === null) {
+    return { targets: DEFAULT_SEARCH_TARGETS };
+  }
+
+  if (!Array.isArray(input) || input.length === 0) {
+    return { targets: [], error: 'targets must be a non-empty array' };
+  }
+
+  const targets: EmbeddingSearchTarget[] = [];
+  for (const item of input) {
+    const { option, scope, weight = 1 } = (item || {}) as Partial<EmbeddingSearchTarget>;
+
+    if (!option || !EMBEDDING_OPTIONS.includes(option)) {
+      return { targets: [], error: `Unsupported embedding option: ${option}` };
+    }
+    if (!scope || !EMBEDDING_SCOPES.includes(scope)) {
+      return { targets: [], error: `Unsupported embedding scope: ${scope}` };
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return { targets: [], error: `Weight for ${option}:${scope} must be a non-negative number` };
+    }
+    if (targets.some(target => getTargetKey(target) === getTargetKey({ option, scope }))) {
+      return { targets: [], error: `Duplicate target ${option}:${scope}` };
+    }
+
+    targets.push({ option, scope, weight });
+  }
+
+  if (targets.every(target => target.weight === 0)) {
+    return { targets: [], error: 'At least one target needs a positive weight' };
+  }
+
+  return { targets };
+};
+
+export interface WeightedSearchResult {
+  score: number;
+  modalityScores: Record<string, number>;
+  metadata?: VectorRecordMetadata;
+}
+
+// Per-target score for each video, keyed by tl_video_id
+export type TargetVideoScores = Map<string, { score: number; metadata?: VectorRecordMetadata }>;
+
+// Best match per video, i.e. the 'max' aggregation
+export const maxScoresByVideo = (matches: VectorMatch[]): TargetVideoScores => {
+  const scores: TargetVideoScores = new Map();
+  matches.forEach(match => {
+    const videoId = match.metadata?.tl_video_id as string;
+    if (!videoId) return;
+
+    const existing = scores.get(videoId);
+    if (!existing || existing.score < (match.score || 0)) {
+      scores.set(videoId, { score: match.score || 0, metadata: match.metadata });
+    }
+  });
+  return scores;
+};
+
+// Combine per-target scores as a weighted average. A video missing from a target contributes 0 for that target.
+export const combineTargetScores = (
+  targets: EmbeddingSearchTarget[],
+  scoresByTarget: Map<string, TargetVideoScores>
+): WeightedSearchResult[] => {
+  const totalWeight = targets.reduce((sum, target) => sum + target.weight, 0);
+  const results = new Map<string, WeightedSearchResult>();
+
+  for (const target of targets) {
+    const key = getTargetKey(target);
+
+    scoresByTarget.get(key)?.forEach(({ score, metadata }, videoId) => {
+      const result = results.get(videoId) || { score: 0, modalityScores: {}, metadata };
+      result.modalityScores[key] = score;
+      results.set(videoId, result);
+    });
+  }
+
+  return Array.from(results.values())
+    .map(result => ({
+      ...result,
+      score: targets.reduce(
+        (sum, target) => sum + target.weight * (result.modalityScores[getTargetKey(target)] || 0),
+        0
+      ) / totalWeight
+    }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Keep the best match per video for each target, then combine them as a weighted average
+export const combineTargetMatches = (
+  targets: EmbeddingSearchTarget[],
+  matchesByTarget: Map<string, VectorMatch[]>
+): WeightedSearchResult[] => {
+  const scoresByTarget = new Map<string, TargetVideoScores>();
+  matchesByTarget.forEach((matches, key) => scoresByTarget.set(key, maxScoresByVideo(matches)));
+  return combineTargetScores(targets, scoresByTarget);
+};
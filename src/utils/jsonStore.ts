@@ -0,0 +1,77 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { analysisStoreUnsupported } from '@/utils/runtime';
+
+// ':memory:' keeps documents in process memory without touching the disk
+const IN_MEMORY_PATH = ':memory:';
+const DEFAULT_STORE_DIR = path.join(process.cwd(), '.analysis-store');
+
+const storeDir = process.env.ANALYSIS_STORE_DIR || DEFAULT_STORE_DIR;
+
+// Named JSON documents for analysis data, cached after the first read and shared by every route in the process
+const documents = new Map<string, unknown>();
+const writeQueues = new Map<string, Promise<void>>();
+
+const documentPath = (name: string) => path.join(storeDir, `${name}.json`);
+
+export const readJsonDocument = async <T>(name: string): Promise<T | null> => {
+  if (documents.has(name)) return documents.get(name) as T;
+  if (storeDir === IN_MEMORY_PATH) return null;
+
+  try {
+    const parsed = JSON.parse(await fs.readFile(documentPath(name), 'utf-8')) as T;
+    // A write that landed while the file was being read is newer than the file
+    if (documents.has(name)) return documents.get(name) as T;
+    documents.set(name, parsed);
+    return parsed;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    console.error(`❌ Error reading analysis store document ${name}:`, error);
+    throw error;
+  }
+};
+
+// Steps for the same document run one after another. A failed step rejects for its own caller only,
+// so later writes still run.
+const enqueue = <R>(name: string, step: () => Promise<R>): Promise<R> => {
+  const result = (writeQueues.get(name) || Promise.resolve()).then(step);
+  writeQueues.set(name, result.then(
+    () => undefined,
+    error => console.error(`❌ Error writing analysis store document ${name}:`, error)
+  ));
+  return result;
+};
+
+const writeDocumentFile = async (name: string, snapshot: string) => {
+  if (storeDir === IN_MEMORY_PATH) return;
+  await fs.mkdir(storeDir, { recursive: true });
+  const tmpPath = `${documentPath(name)}.tmp`;
+  await fs.writeFile(tmpPath, snapshot, 'utf-8');
+  await fs.rename(tmpPath, documentPath(name));
+};
+
+// Routes check analysisStoreUnsupported first to answer 501; this keeps other callers from losing data silently
+const assertWritable = () => {
+  const unsupported = analysisStoreUnsupported();
+  if (unsupported) throw new Error(unsupported);
+};
+
+// Writes to the same document are chained so concurrent requests never interleave partial files
+export const writeJsonDocument = async <T>(name: string, value: T): Promise<void> => {
+  assertWritable();
+  documents.set(name, value);
+  const snapshot = JSON.stringify(value);
+  return enqueue(name, () => writeDocumentFile(name, snapshot));
+};
+
+// Read-modify-write in the document's queue, so concurrent updates never drop each other's changes
+export const updateJsonDocument = async <T>(name: string, update: (current: T | null) => T): Promise<T> => {
+  assertWritable();
+  return enqueue(name, async () => {
+    const current = documents.has(name) ? documents.get(name) as T : await readJsonDocument<T>(name);
+    const value = update(current);
+    documents.set(name, value);
+    await writeDocumentFile(name, JSON.stringify(value));
+    return value;
+  });
+};
@@ -0,0 +1,150 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { VectorStore, VectorRecord, VectorMatch, VectorQueryOptions, VectorFilter, VectorStoreStats } from '@/types';
+import { matchesFilter } from '@/utils/vectorFilter';
+import { cosineSimilarity } from '@/utils/vectorMath';
+
+// ':memory:' keeps everything in process memory without touching the disk
+const IN_MEMORY_PATH = ':memory:';
+const DEFAULT_STORE_PATH = path.join(process.cwd(), '.vector-store', 'vectors.json');
+
+const storePath = process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_STORE_PATH;
+
+// Loaded lazily on first use and shared by every route in the process
+let records: Map<string, VectorRecord> | null = null;
+let loadPromise: Promise<Map<string, VectorRecord>> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const loadRecords = async (): Promise<Map<string, VectorRecord>> => {
+  if (records) return records;
+  if (loadPromise) return loadPromise;
+
+  loadPromise = (async () => {
+    const loaded = new Map<string, VectorRecord>();
+
+    if (storePath !== IN_MEMORY_PATH) {
+      try {
+        const raw = await fs.readFile(storePath, 'utf-8');
+        const parsed: VectorRecord[] = JSON.parse(raw);
+        parsed.forEach(record => loaded.set(record.id, record));
+        console.log(`✅ Loaded ${loaded.size} vectors from local store: ${storePath}`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error('❌ Error reading local vector store:', error);
+          throw error;
+        }
+      }
+    }
+
+    records = loaded;
+    return loaded;
+  })();
+
+  // A failed read is retried by the next caller instead of being cached
+  loadPromise.catch(() => {
+    loadPromise = null;
+  });
+
+  return loadPromise;
+};
+
+// Writes are chained so concurrent requests never interleave partial files
+const persist = () => {
+  if (storePath === IN_MEMORY_PATH || !records) return writeQueue;
+
+  const snapshot = JSON.stringify(Array.from(records.values()));
+  const write = writeQueue.then(async () => {
+    await fs.mkdir(path.dirname(storePath), { recursive: true });
+    const tmpPath = `${storePath}.tmp`;
+    await fs.writeFile(tmpPath, snapshot, 'utf-8');
+    await fs.rename(tmpPath, storePath);
+  });
+  // The caller sees a failed write, but later writes still run
+  writeQueue = write.catch(error => {
+    console.error('❌ Error writing local vector store:', error);
+  });
+
+  return write;
+};
+
+// Local implementation of the VectorStore interface using brute-force cosine search
+export const createLocalVectorStore = (): VectorStore => ({
+  backend: 'local',
+
+  async upsert(newRecords: VectorRecord[]) {
+    const store = await loadRecords();
+    newRecords.forEach(record => store.set(record.id, record));
+    await persist();
+  },
+
+  async query({ vector, topK, filter, includeValues = false, includeMetadata = true }: VectorQueryOptions) {
+    const store = await loadRecords();
+    const matches: VectorMatch[] = [];
+
+    store.forEach(record => {
+      if (!matchesFilter(record.metadata, filter)) return;
+      matches.push({
+        id: record.id,
+        score: cosineSimilarity(vector, record.values),
+        values: includeValues ? record.values : undefined,
+        metadata: includeMetadata ? record.metadata : undefined
+      });
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  },
+
+  async fetch(ids: string[]) {
+    const store = await loadRecords();
+    const found: Record<string, VectorRecord> = {};
+    ids.forEach(id => {
+      const record = store.get(id);
+      if (record) found[id] = record;
+    });
+    return found;
+  },
+
+  async deleteMany(filter: VectorFilter) {
+    const store = await loadRecords();
+    Array.from(store.values())
+      .filter(record => matchesFilter(record.metadata, filter))
+      .forEach(record => store.delete(record.id));
+    await persist();
+  },
+
+  async deleteIds(ids: string[]) {
+    const store = await loadRecords();
+    ids.forEach(id => store.delete(id));
+    await persist();
+  },
+
+  async deleteAll() {
+    const store = await loadRecords();
+    store.clear();
+    await persist();
+  },
+
+  async findIds(filter: VectorFilter) {
+    const store = await loadRecords();
+    return Array.from(store.values())
+      .filter(record => matchesFilter(record.metadata, filter))
+      .map(record => record.id);
+  },
+
+  async listIds(prefix?: string) {
+    const store = await loadRecords();
+    return Array.from(store.keys()).filter(id => !prefix || id.startsWith(prefix));
+  },
+
+  async describeStats(): Promise<VectorStoreStats> {
+    const store = await loadRecords();
+    const first = store.values().next().value as VectorRecord | undefined;
+    return {
+      dimension: first?.values.length,
+      totalRecordCount: store.size,
+      namespaces: { '': { recordCount: store.size } }
+    };
+  }
+});
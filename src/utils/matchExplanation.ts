@@ -0,0 +1,75 @@
+import { MatchExplanation, TagCategory, Taxonomy, VideoData } from '@/types';
+import { TAG_CATEGORIES, extractVideoTags } from '@/utils/videoTags';
+import { canonicalTag, tagSimilarity } from '@/utils/tagSimilarity';
+import { PairScores } from '@/utils/pairScoring';
+import { audienceFit } from '@/utils/audienceFit';
+
+// Shared tags named in the summary sentence
+const SUMMARY_TAG_LIMIT = 3;
+
+const SOURCE_SUMMARIES: Record<NonNullable<MatchExplanation['originalSource']>, string> = {
+  BOTH: 'it shares both visual and thematic elements with the selected ad.',
+  TEXT: 'it shares thematic elements and keywords with the selected ad.',
+  VIDEO: 'it shares visual elements and style with the selected ad.'
+};
+
+const capitalize = (tag: string) => tag.split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// Which signal carries the match: both when the weaker of text and video is within 80% of the stronger
+const dominantSource = (textScore: number, videoScore: number): MatchExplanation['originalSource'] => {
+  if (Math.max(textScore, videoScore) <= 0) return undefined;
+  if (Math.min(textScore, videoScore) >= 0.8 * Math.max(textScore, videoScore)) return 'BOTH';
+  return textScore > videoScore ? 'TEXT' : 'VIDEO';
+};
+
+// Break down an ad/content match from server-side data only: text and video scores and matched segments from
+// the stored vectors (scorePair), the tag score and shared tags from the metadata mapped through the taxonomy,
+// and the fused score from the latest match matrix when it has the pair.
+export const explainMatch = (
+  ad: VideoData,
+  content: VideoData,
+  taxonomy: Taxonomy,
+  pair: PairScores,
+  fusedScore?: number
+): MatchExplanation => {
+  const adTags = extractVideoTags(ad.user_metadata);
+  const contentTags = extractVideoTags(content.user_metadata);
+
+  const shared = (category: TagCategory) => {
+    const contentCanonical = new Set(contentTags[category].map(tag => canonicalTag(taxonomy, category, tag)));
+    return Array.from(new Set(
+      adTags[category].map(tag => canonicalTag(taxonomy, category, tag)).filter(tag => contentCanonical.has(tag))
+    ));
+  };
+  const sharedTags = TAG_CATEGORIES
+    .map(category => ({ category, tags: shared(category) }))
+    .filter(({ tags }) => tags.length > 0);
+
+  const originalSource = dominantSource(pair.textScore, pair.videoScore);
+  const allShared = sharedTags.flatMap(({ tags }) => tags);
+  let summary = originalSource ? SOURCE_SUMMARIES[originalSource] : 'it was found in the search results.';
+  if (allShared.length > 0) {
+    summary += ` They share common tags: ${allShared.slice(0, SUMMARY_TAG_LIMIT).map(capitalize).join(', ')}`;
+    summary += allShared.length > SUMMARY_TAG_LIMIT ? '...' : '.';
+  }
+
+  return {
+    adId: ad._id,
+    contentId: content._id,
+    originalSource,
+    scores: {
+      score: fusedScore,
+      textScore: pair.textScore,
+      videoScore: pair.videoScore,
+      tagScore: tagSimilarity(adTags, contentTags, taxonomy)
+    },
+    sharedTags,
+    demographics: {
+      gender: { ad: adTags.gender, content: contentTags.gender, shared: shared('gender') },
+      age: { ad: adTags.age, content: contentTags.age, shared: shared('age') }
+    },
+    audienceFit: audienceFit(adTags, contentTags),
+    matchedSegments: pair.matchedSegments,
+    summary
+  };
+};
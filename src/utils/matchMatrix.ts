@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { EmbeddingSearchResult, FusionOptions, MatchMatrix, MatchMatrixCell, Taxonomy, VectorRecord, VideoData } from '@/types';
+import { getVectorStore } from '@/utils/vectorStore';
+import { listIndexVideos } from '@/utils/twelveLabs';
+import { embedMetadataTerms, fetchClipVectorsByVideo, scorePair } from '@/utils/pairScoring';
+import { fuseSearchResults } from '@/utils/scoreFusion';
+import { tagScoresFor } from '@/utils/tagSimilarity';
+import { getTaxonomy } from '@/utils/taxonomyStore';
+import { readJsonDocument, writeJsonDocument } from '@/utils/jsonStore';
+import { backgroundJobsUnsupported } from '@/utils/runtime';
+
+const MATRIX_DOCUMENT = 'match-matrix';
+
+// ID of the matrix being computed by this process, if any
+let runningMatrixId: string | null = null;
+
+export const videoTitle = (video: VideoData) =>
+  video.system_metadata?.video_title || video.system_metadata?.filename || `Video ${video._id}`;
+
+// Latest stored matrix. A matrix left 'running' by a restarted server is reported as failed.
+export const getLatestMatchMatrix = async (): Promise<MatchMatrix | null> => {
+  const matrix = await readJsonDocument<MatchMatrix>(MATRIX_DOCUMENT);
+  if (matrix?.status === 'running' && matrix.id !== runningMatrixId) {
+    return { ...matrix, status: 'failed' };
+  }
+  return matrix;
+};
+
+export const isMatchMatrixRunning = () => runningMatrixId !== null;
+
+// Score one ad against every content video. Text and video scores compare the ad's metadata terms and clips with
+// each content video's stored clips (see scorePair); they are fused with the tag score as in contextual analysis,
+// ranking across every content video. contentClips comes from fetchClipVectorsByVideo for the content index.
+export const scoreAd = async (
+  ad: VideoData,
+  contents: VideoData[],
+  contentClips: Map<string, VectorRecord[]>,
+  { adsIndexId, contentIndexId, fusion }: Pick<MatchMatrix, 'adsIndexId' | 'contentIndexId' | 'fusion'>,
+  taxonomy: Taxonomy
+): Promise<MatchMatrixCell[]> => {
+  const [adTerms, adClips] = await Promise.all([
+    embedMetadataTerms(ad),
+    fetchClipVectorsByVideo(getVectorStore(), adsIndexId, [ad._id])
+  ]);
+  const clips = adClips.get(ad._id) || [];
+  if (clips.length === 0) {
+    console.warn(`⚠️ Ad ${ad._id} has no stored clip vectors, scoring it by text and tags only`);
+  }
+
+  const pairs = contents.map(content => ({ content, ...scorePair(adTerms, clips, contentClips.get(content._id) || []) }));
+  const asResults = (scoreOf: (pair: typeof pairs[number]) => number): EmbeddingSearchResult[] => pairs.map(pair => ({
+    score: scoreOf(pair),
+    metadata: { tl_video_id: pair.content._id, tl_index_id: contentIndexId, video_file: '' }
+  }));
+
+  return fuseSearchResults(
+    asResults(pair => pair.textScore),
+    asResults(pair => pair.videoScore),
+    fusion,
+    tagScoresFor(ad, contents, taxonomy)
+  ).map(result => ({
+    adId: ad._id,
+    contentId: result.metadata!.tl_video_id,
+    score: result.score,
+    textScore: result.textScore || 0,
+    videoScore: result.videoScore || 0,
+    tagScore: result.tagScore || 0,
+    originalSource: result.originalSource
+  }));
+};
+
+// Start computing a new matrix in the background of this Node server; clients poll getLatestMatchMatrix for progress
+export const startMatchMatrix = async (
+  adsIndexId: string,
+  contentIndexId: string,
+  fusion: Required<FusionOptions>
+): Promise<MatchMatrix> => {
+  const unsupported = backgroundJobsUnsupported();
+  if (unsupported) throw new Error(unsupported);
+
+  const [ads, contents, taxonomy, contentClips] = await Promise.all([
+    listIndexVideos(adsIndexId),
+    listIndexVideos(contentIndexId),
+    getTaxonomy(),
+    fetchClipVectorsByVideo(getVectorStore(), contentIndexId)
+  ]);
+
+  const matrix: MatchMatrix = {
+    id: randomUUID(),
+    status: 'running',
+    adsIndexId,
+    contentIndexId,
+    fusion,
+    ads: ads.map(video => ({ id: video._id, title: videoTitle(video) })),
+    contents: contents.map(video => ({ id: video._id, title: videoTitle(video) })),
+    cells: [],
+    processedAds: 0,
+    failures: [],
+    startedAt: new Date().toISOString()
+  };
+  runningMatrixId = matrix.id;
+  await writeJsonDocument(MATRIX_DOCUMENT, matrix);
+
+  const run = async () => {
+    for (const ad of ads) {
+      try {
+        matrix.cells.push(...await scoreAd(ad, contents, contentClips, matrix, taxonomy));
+      } catch (error) {
+        console.error(`❌ Match matrix failed for ad ${ad._id}:`, error);
+        matrix.failures.push({ adId: ad._id, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      matrix.processedAds++;
+    }
+
+    matrix.status = matrix.failures.length === ads.length && ads.length > 0 ? 'failed' : 'completed';
+    matrix.finishedAt = new Date().toISOString();
+    console.log(`✅ Match matrix ${matrix.id} finished: ${ads.length - matrix.failures.length}/${ads.length} ads`);
+  };
+
+  // Not awaited: the matrix is stored once it finishes
+  run()
+    .catch(error => {
+      console.error(`❌ Match matrix ${matrix.id} crashed:`, error);
+      matrix.status = 'failed';
+      matrix.finishedAt = new Date().toISOString();
+    })
+    .finally(() => {
+      runningMatrixId = null;
+      writeJsonDocument(MATRIX_DOCUMENT, matrix).catch(error => {
+        console.error(`❌ Failed to store match matrix ${matrix.id}:`, error);
+      });
+    });
+
+  return matrix;
+};
+
+const csvValue = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per ad and one column per content video, with fused scores rounded to 4 decimals.
+// Ads whose scoring failed have no cells and are left empty.
+export const matchMatrixToCsv = (matrix: MatchMatrix) => {
+  const scores = new Map(matrix.cells.map(cell => [`${cell.adId}:${cell.contentId}`, cell.score]));
+
+  const header = ['ad_id', 'ad_title', ...matrix.contents.map(content => `${content.title} (${content.id})`)];
+  const rows = matrix.ads.map(ad => [
+    ad.id,
+    ad.title,
+    ...matrix.contents.map(content => scores.get(`${ad.id}:${content.id}`)?.toFixed(4) ?? '')
+  ]);
+
+  return [header, ...rows].map(row => row.map(csvValue).join(',')).join('\n');
+};
@@ -0,0 +1,88 @@
+import { SegmentMatch, VectorRecord, VectorStore, VideoData } from '@/types';
+import { getIndexVectorManifests, getVideoVectorManifest } from '@/utils/vectorManifest';
+import { parseVectorId } from '@/utils/vectorIds';
+import { cosineSimilarity } from '@/utils/vectorMath';
+import { embedText, metadataSearchTerms } from '@/utils/embeddingSearch';
+
+const FETCH_BATCH_SIZE = 100;
+// Segment pairs kept per pair to explain where the videos match
+const MAX_SEGMENT_PAIRS = 5;
+const PAIR_OPTION = 'visual-text';
+
+export interface TextEmbedding {
+  vector: number[];
+  model: string;
+}
+
+export interface PairScores {
+  // Best similarity between the ad's tag and title terms and any content clip
+  textScore: number;
+  // Best similarity between any ad clip and any content clip
+  videoScore: number;
+  matchedSegments: SegmentMatch[];
+}
+
+// Clip-scope visual-text vectors of videos in one index, keyed by video ID. Without videoIds, every video is loaded.
+export const fetchClipVectorsByVideo = async (vectorStore: VectorStore, indexId: string, videoIds?: string[]) => {
+  const manifests = videoIds?.length === 1
+    ? [await getVideoVectorManifest(vectorStore, indexId, videoIds[0])]
+    : Object.values(await getIndexVectorManifests(vectorStore, indexId, videoIds));
+  const clipIds = manifests.flatMap(manifest => manifest.vectorIds.filter(id => {
+    const parts = parseVectorId(id);
+    return parts?.scope === 'clip' && parts.embeddingOption === PAIR_OPTION;
+  }));
+
+  const clipsByVideo = new Map<string, VectorRecord[]>();
+  for (let i = 0; i < clipIds.length; i += FETCH_BATCH_SIZE) {
+    Object.values(await vectorStore.fetch(clipIds.slice(i, i + FETCH_BATCH_SIZE))).forEach(record => {
+      const videoId = parseVectorId(record.id)?.videoId;
+      if (!videoId || !record.values?.length) return;
+      clipsByVideo.set(videoId, [...(clipsByVideo.get(videoId) || []), record]);
+    });
+  }
+  return clipsByVideo;
+};
+
+// Embeddings of the tag and title terms the video is searched by in contextual analysis
+export const embedMetadataTerms = (video: VideoData): Promise<TextEmbedding[]> =>
+  Promise.all(metadataSearchTerms(video).map(({ term }) => embedText(term)));
+
+const segmentSpan = (record: VectorRecord) => ({
+  start_time: Number(record.metadata?.start_time ?? 0),
+  end_time: Number(record.metadata?.end_time ?? 0)
+});
+
+// Score one ad/content pair from stored vectors, the way the searches would if they returned every video.
+// Only vectors of the same embedding model are compared.
+export const scorePair = (adTerms: TextEmbedding[], adClips: VectorRecord[], contentClips: VectorRecord[]): PairScores => {
+  const modelOf = (record: VectorRecord) => record.metadata?.embedding_model;
+
+  let textScore = 0;
+  adTerms.forEach(term => {
+    contentClips.forEach(clip => {
+      if (modelOf(clip) !== term.model) return;
+      textScore = Math.max(textScore, cosineSimilarity(term.vector, clip.values));
+    });
+  });
+
+  // Strongest ad clip per content clip, so one moment is not listed several times
+  const bestPerContentClip: SegmentMatch[] = [];
+  for (const clip of contentClips) {
+    let best: SegmentMatch | null = null;
+    for (const adClip of adClips) {
+      if (modelOf(adClip) !== modelOf(clip)) continue;
+      const score = cosineSimilarity(adClip.values, clip.values);
+      if (score > (best?.score ?? 0)) {
+        best = { score, option: PAIR_OPTION, source: segmentSpan(adClip), target: segmentSpan(clip) };
+      }
+    }
+    if (best) bestPerContentClip.push(best);
+  }
+  bestPerContentClip.sort((a, b) => b.score - a.score);
+
+  return {
+    textScore,
+    videoScore: bestPerContentClip[0]?.score ?? 0,
+    matchedSegments: bestPerContentClip.slice(0, MAX_SEGMENT_PAIRS)
+  };
+};
@@ -1,4 +1,7 @@
 import { Pinecone } from '@pinecone-database/pinecone';
+import { VectorStore, VectorRecord, VectorMatch, VectorQueryOptions, VectorFilter, VectorStoreStats } from '@/types';
+import { matchesFilter } from '@/utils/vectorFilter';
+import { getIndexVectorIdPrefix, getVideoVectorIdPrefix } from '@/utils/vectorIds';
 
 // API 키와 인덱스 이름 확인
 const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
@@ -90,4 +93,111 @@ export const checkPineconeEnvironment = () => {
       message: error instanceof Error ? error.message : 'Unknown error'
     };
   }
-};
\ No newline at end of file
+};
+
+// Exact index and video IDs are part of the vector ID, so they narrow the listing without fetching metadata.
+// Vectors with legacy title-based IDs are not matched by these keys until they are migrated.
+const prefixForFilter = (filter: VectorFilter) => {
+  const { tl_index_id: indexId, tl_video_id: videoId, ...rest } = filter;
+  if (typeof indexId !== 'string') return { prefix: undefined, remainingFilter: filter };
+  if (typeof videoId === 'string') {
+    return { prefix: getVideoVectorIdPrefix(indexId, videoId), remainingFilter: rest };
+  }
+
+  const remainingFilter: VectorFilter = videoId === undefined ? rest : { ...rest, tl_video_id: videoId };
+  return { prefix: getIndexVectorIdPrefix(indexId), remainingFilter };
+};
+
+// Pinecone-backed implementation of the VectorStore interface
+export const createPineconeVectorStore = (): VectorStore => {
+  const index = getPineconeIndex();
+
+  return {
+    backend: 'pinecone',
+
+    async upsert(records: VectorRecord[]) {
+      if (records.length === 0) return;
+      await index.upsert(records);
+    },
+
+    async query({ vector, topK, filter, includeValues = false, includeMetadata = true }: VectorQueryOptions) {
+      const response = await index.query({ vector, topK, filter, includeValues, includeMetadata });
+      return response.matches.map((match): VectorMatch => ({
+        id: match.id,
+        score: match.score ?? 0,
+        values: match.values,
+        metadata: match.metadata
+      }));
+    },
+
+    async fetch(ids: string[]) {
+      if (ids.length === 0) return {};
+      const response = await index.fetch(ids);
+      const records: Record<string, VectorRecord> = {};
+      Object.entries(response.records || {}).forEach(([id, record]) => {
+        records[id] = { id, values: record.values || [], metadata: record.metadata };
+      });
+      return records;
+    },
+
+    async deleteMany(filter: VectorFilter) {
+      await index.deleteMany(filter);
+    },
+
+    async deleteIds(ids: string[]) {
+      // Pinecone accepts at most 1000 IDs per delete request
+      for (let i = 0; i < ids.length; i += 1000) {
+        await index.deleteMany(ids.slice(i, i + 1000));
+      }
+    },
+
+    async listIds(prefix?: string) {
+      const ids: string[] = [];
+      let paginationToken: string | undefined;
+
+      do {
+        const response = await index.listPaginated({ prefix, paginationToken });
+        (response.vectors || []).forEach(item => {
+          if (item.id) ids.push(item.id);
+        });
+        paginationToken = response.pagination?.next;
+      } while (paginationToken);
+
+      return ids;
+    },
+
+    async deleteAll() {
+      await index.deleteAll();
+    },
+
+    async findIds(filter: VectorFilter) {
+      // Serverless indexes cannot count or list by metadata, so list IDs by prefix and check the rest of the filter in batches
+      const { prefix, remainingFilter } = prefixForFilter(filter);
+      const candidateIds = await this.listIds(prefix);
+      if (Object.keys(remainingFilter).length === 0) return candidateIds;
+
+      const matchedIds: string[] = [];
+      for (let i = 0; i < candidateIds.length; i += 100) {
+        const records = await this.fetch(candidateIds.slice(i, i + 100));
+        Object.values(records).forEach(record => {
+          if (matchesFilter(record.metadata, remainingFilter)) matchedIds.push(record.id);
+        });
+      }
+
+      return matchedIds;
+    },
+
+    async describeStats(): Promise<VectorStoreStats> {
+      const stats = await index.describeIndexStats();
+      const namespaces: VectorStoreStats['namespaces'] = {};
+      Object.entries(stats.namespaces || {}).forEach(([name, summary]) => {
+        namespaces[name] = { recordCount: summary.recordCount };
+      });
+      return {
+        dimension: stats.dimension,
+        totalRecordCount: stats.totalRecordCount || 0,
+        namespaces
+      };
+    }
+  };
+};
@@ -0,0 +1,110 @@
+import { EmbeddingSearchResult, RerankOptions, RerankResponse, Taxonomy, VectorStore, VideoData } from '@/types';
+import { cosineSimilarity } from '@/utils/vectorMath';
+import { buildVectorId } from '@/utils/vectorIds';
+import { extractVideoTags, normalizeTag } from '@/utils/videoTags';
+import { tagSimilarity } from '@/utils/tagSimilarity';
+
+export const DEFAULT_RERANK_OPTIONS: Required<RerankOptions> = {
+  mmrLambda: 1,
+  minScore: 0,
+  maxPerSource: 0
+};
+
+// Fill in defaults and reject out-of-range values
+export const resolveRerankOptions = (options: RerankOptions = {}): { rerank: Required<RerankOptions>; error?: string } => {
+  const rerank: Required<RerankOptions> = { ...DEFAULT_RERANK_OPTIONS, ...options };
+
+  if (!(rerank.mmrLambda >= 0 && rerank.mmrLambda <= 1)) {
+    return { rerank, error: 'mmrLambda must be between 0 and 1' };
+  }
+  if (!(rerank.minScore >= 0 && rerank.minScore <= 1)) {
+    return { rerank, error: 'minScore must be between 0 and 1' };
+  }
+  if (!(Number.isInteger(rerank.maxPerSource) && rerank.maxPerSource >= 0)) {
+    return { rerank, error: 'maxPerSource must be a non-negative integer (0 for no cap)' };
+  }
+
+  return { rerank };
+};
+
+// The whole-video visual-text vector of each result, fetched by its ID; results without one are left out
+export const fetchVideoVectors = async (vectorStore: VectorStore, indexId: string, videoIds: string[]) => {
+  const idsByVector = new Map(videoIds.map(videoId => [
+    buildVectorId({ indexId, videoId, scope: 'video', startOffset: 0 }),
+    videoId
+  ]));
+  const records = await vectorStore.fetch(Array.from(idsByVector.keys()));
+
+  const vectors = new Map<string, number[]>();
+  Object.values(records).forEach(record => {
+    const videoId = idsByVector.get(record.id);
+    if (videoId && record.values?.length) vectors.set(videoId, record.values);
+  });
+  return vectors;
+};
+
+// Drop results below minScore, cap results per `source`, then order by maximal marginal relevance:
+// each pick maximises lambda * score - (1 - lambda) * (highest similarity to an earlier pick).
+// Similarity is the mean of the embedding cosine and the tag overlap, using whichever is available.
+export const rerankResults = <T extends EmbeddingSearchResult>(
+  results: T[],
+  rerank: Required<RerankOptions>,
+  videos: Map<string, VideoData>,
+  vectors: Map<string, number[]>,
+  taxonomy: Taxonomy
+): RerankResponse<T> => {
+  const videoIdOf = (result: T) => result.metadata?.tl_video_id || '';
+  const tagsById = new Map<string, ReturnType<typeof extractVideoTags>>();
+  const tagsOf = (videoId: string) => {
+    if (!tagsById.has(videoId)) tagsById.set(videoId, extractVideoTags(videos.get(videoId)?.user_metadata));
+    return tagsById.get(videoId)!;
+  };
+
+  const similarity = (a: string, b: string) => {
+    const parts: number[] = [];
+    const vectorA = vectors.get(a);
+    const vectorB = vectors.get(b);
+    if (vectorA && vectorB) parts.push(Math.max(0, cosineSimilarity(vectorA, vectorB)));
+    if (videos.has(a) && videos.has(b)) parts.push(tagSimilarity(tagsOf(a), tagsOf(b), taxonomy));
+    return parts.length > 0 ? parts.reduce((sum, value) => sum + value, 0) / parts.length : 0;
+  };
+
+  const candidates = results
+    .filter(result => result.score >= rerank.minScore)
+    .sort((a, b) => b.score - a.score);
+  const belowMinScore = results.length - candidates.length;
+
+  const selected: T[] = [];
+  const perSource = new Map<string, number>();
+  let sourceCapped = 0;
+  const remaining = [...candidates];
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    if (rerank.mmrLambda < 1 && selected.length > 0) {
+      let bestValue = -Infinity;
+      remaining.forEach((candidate, index) => {
+        const redundancy = Math.max(...selected.map(pick => similarity(videoIdOf(candidate), videoIdOf(pick))));
+        const value = rerank.mmrLambda * candidate.score - (1 - rerank.mmrLambda) * redundancy;
+        if (value > bestValue) {
+          bestValue = value;
+          bestIndex = index;
+        }
+      });
+    }
+
+    const [pick] = remaining.splice(bestIndex, 1);
+    const source = normalizeTag(String(videos.get(videoIdOf(pick))?.user_metadata?.source || ''));
+    if (rerank.maxPerSource > 0 && source) {
+      const count = perSource.get(source) || 0;
+      if (count >= rerank.maxPerSource) {
+        sourceCapped++;
+        continue;
+      }
+      perSource.set(source, count + 1);
+    }
+    selected.push(pick);
+  }
+
+  return { results: selected, rerank, removed: { belowMinScore, sourceCapped } };
+};
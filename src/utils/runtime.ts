@@ -0,0 +1,19 @@
+// Background jobs keep working after the response is sent and keep their progress in this process.
+// Serverless platforms freeze the function once it responds and send progress polls to other instances,
+// so the jobs only run on a long-lived Node server (`next start`).
+const SERVERLESS_ENV_VARS = ['VERCEL', 'AWS_LAMBDA_FUNCTION_NAME', 'NETLIFY'];
+
+export const isServerlessRuntime = () => SERVERLESS_ENV_VARS.some(name => !!process.env[name]);
+
+// Error message for routes that start background jobs, or null when they can run here
+export const backgroundJobsUnsupported = () =>
+  isServerlessRuntime()
+    ? 'Background jobs need a long-running Node server (next start) and are disabled on serverless deployments'
+    : null;
+
+// Error message for routes that save to the analysis store, or null when it can be written here. The store is a
+// directory on local disk, which serverless platforms make read-only and do not share between instances.
+export const analysisStoreUnsupported = () =>
+  isServerlessRuntime()
+    ? 'Saving analysis data needs a long-running Node server (next start) with a writable analysis store and is disabled on serverless deployments'
+    : null;
@@ -0,0 +1,143 @@
+import { EmbeddingSearchResult, FusedSearchResult, FusionOptions, FusionStrategy } from '@/types';
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ['weighted_sum', 'rrf', 'max_boost'];
+
+export const DEFAULT_FUSION_OPTIONS: Required<FusionOptions> = {
+  strategy: 'weighted_sum',
+  weights: { text: 0.5, video: 0.5, tag: 0 },
+  rrfK: 60,
+  boost: 1.2
+};
+
+// Fill in defaults and reject values that would break the [0, 1] score range
+export const resolveFusionOptions = (options: FusionOptions = {}): { fusion: Required<FusionOptions>; error?: string } => {
+  const fusion: Required<FusionOptions> = {
+    ...DEFAULT_FUSION_OPTIONS,
+    ...options,
+    weights: { ...DEFAULT_FUSION_OPTIONS.weights, ...options.weights }
+  };
+
+  if (!FUSION_STRATEGIES.includes(fusion.strategy)) {
+    return { fusion, error: `Unsupported fusion strategy: ${fusion.strategy}` };
+  }
+  const { text, video, tag = 0 } = fusion.weights;
+  if (![text, video, tag].every(weight => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) || text + video + tag === 0) {
+    return { fusion, error: 'weights.text, weights.video and weights.tag must be non-negative and not all 0' };
+  }
+  if (typeof fusion.rrfK !== 'number' || !Number.isFinite(fusion.rrfK) || fusion.rrfK <= 0) {
+    return { fusion, error: 'rrfK must be a positive number' };
+  }
+  if (typeof fusion.boost !== 'number' || !Number.isFinite(fusion.boost) || fusion.boost < 1) {
+    return { fusion, error: 'boost must be a number of at least 1' };
+  }
+
+  return { fusion };
+};
+
+interface Candidate {
+  metadata?: EmbeddingSearchResult['metadata'];
+  textScore: number;
+  videoScore: number;
+  tagScore?: number;
+  textRank?: number;
+  videoRank?: number;
+  tagRank?: number;
+  matchedSegments?: EmbeddingSearchResult['matchedSegments'];
+}
+
+const scoreCandidate = (candidate: Candidate, fusion: Required<FusionOptions>) => {
+  const { text, video, tag = 0 } = fusion.weights;
+  const totalWeight = text + video + tag;
+
+  switch (fusion.strategy) {
+    case 'rrf': {
+      // Normalised so a video ranked first in both lists scores 1
+      const rrf = (rank?: number) => (rank ? 1 / (fusion.rrfK + rank) : 0);
+      const best = 1 / (fusion.rrfK + 1);
+      return (text * rrf(candidate.textRank) + video * rrf(candidate.videoRank) + tag * rrf(candidate.tagRank)) / (totalWeight * best);
+    }
+    case 'max_boost': {
+      // Each score is scaled by its weight relative to the largest weight, so equal weights keep the raw maximum
+      const maxWeight = Math.max(text, video, tag);
+      const foundByBoth = text > 0 && video > 0 && candidate.textRank !== undefined && candidate.videoRank !== undefined;
+      const maxScore = Math.max(
+        text * candidate.textScore,
+        video * candidate.videoScore,
+        tag * (candidate.tagScore || 0)
+      ) / maxWeight;
+      return Math.min(1, foundByBoth ? maxScore * fusion.boost : maxScore);
+    }
+    case 'weighted_sum':
+    default:
+      return (text * candidate.textScore + video * candidate.videoScore + tag * (candidate.tagScore || 0)) / totalWeight;
+  }
+};
+
+// Merge text and video search results per video into one ranked list with scores in [0, 1].
+// tagScores (by video ID) adds the metadata tag overlap as a third signal; only videos found by a search are ranked.
+export const fuseSearchResults = (
+  textResults: EmbeddingSearchResult[],
+  videoResults: EmbeddingSearchResult[],
+  fusion: Required<FusionOptions>,
+  tagScores?: Map<string, number>
+): FusedSearchResult[] => {
+  const candidates = new Map<string, Candidate>();
+
+  const addResults = (results: EmbeddingSearchResult[], source: 'text' | 'video') => {
+    [...results]
+      .sort((a, b) => b.score - a.score)
+      .forEach((result, index) => {
+        const videoId = result.metadata?.tl_video_id;
+        if (!videoId) return;
+
+        const candidate = candidates.get(videoId) || { metadata: result.metadata, textScore: 0, videoScore: 0 };
+        // Keep only the best-ranked occurrence from each search
+        if (source === 'text' && candidate.textRank === undefined) {
+          candidate.textScore = result.score;
+          candidate.textRank = index + 1;
+        } else if (source === 'video' && candidate.videoRank === undefined) {
+          candidate.videoScore = result.score;
+          candidate.videoRank = index + 1;
+          candidate.matchedSegments = result.matchedSegments;
+        }
+        candidates.set(videoId, candidate);
+      });
+  };
+
+  addResults(textResults, 'text');
+  addResults(videoResults, 'video');
+
+  if (tagScores) {
+    candidates.forEach((candidate, videoId) => {
+      candidate.tagScore = tagScores.get(videoId) ?? 0;
+    });
+    Array.from(candidates.values())
+      .filter(candidate => candidate.tagScore! > 0)
+      .sort((a, b) => b.tagScore! - a.tagScore!)
+      .forEach((candidate, index) => {
+        candidate.tagRank = index + 1;
+      });
+  }
+
+  return Array.from(candidates.values())
+    .map(candidate => {
+      const originalSource: FusedSearchResult['originalSource'] =
+        candidate.textRank !== undefined && candidate.videoRank !== undefined
+          ? 'BOTH'
+          : candidate.textRank !== undefined ? 'TEXT' : 'VIDEO';
+
+      return {
+        score: scoreCandidate(candidate, fusion),
+        metadata: candidate.metadata,
+        originalSource,
+        textScore: candidate.textScore,
+        videoScore: candidate.videoScore,
+        tagScore: candidate.tagScore,
+        textRank: candidate.textRank,
+        videoRank: candidate.videoRank,
+        tagRank: candidate.tagRank,
+        matchedSegments: candidate.matchedSegments
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
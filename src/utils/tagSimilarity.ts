@@ -0,0 +1,49 @@
+import { TagCategory, Taxonomy, VideoData } from '@/types';
+import { TAG_CATEGORIES, extractVideoTags, normalizeTag } from '@/utils/videoTags';
+import { normalizeTaxonomyValue } from '@/utils/taxonomy';
+
+// Relative importance of each category in the tag score
+export const TAG_CATEGORY_WEIGHTS: Record<TagCategory, number> = {
+  topic: 0.3,
+  emotions: 0.2,
+  brands: 0.1,
+  locations: 0.1,
+  gender: 0.15,
+  age: 0.15
+};
+
+// The taxonomy spelling of a tag, lower-cased like extracted tags. Tags outside a closed vocabulary stay as they are.
+export const canonicalTag = (taxonomy: Taxonomy, category: TagCategory, tag: string) => {
+  const taxonomyCategory = taxonomy.categories.find(candidate => candidate.id === category);
+  return normalizeTag((taxonomyCategory && normalizeTaxonomyValue(taxonomyCategory, tag)) || tag);
+};
+
+const jaccard = (a: string[], b: string[], canonical: (tag: string) => string) => {
+  const setA = new Set(a.map(canonical));
+  const setB = new Set(b.map(canonical));
+  const shared = Array.from(setA).filter(tag => setB.has(tag)).length;
+  return shared / (setA.size + setB.size - shared);
+};
+
+// Weighted tag overlap in [0, 1]. Only categories tagged on both videos count, so missing metadata
+// does not lower the score; videos without any such category score 0. Synonyms from the taxonomy count as the same tag.
+export const tagSimilarity = (a: Record<TagCategory, string[]>, b: Record<TagCategory, string[]>, taxonomy: Taxonomy) => {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  TAG_CATEGORIES.forEach(category => {
+    if (a[category].length === 0 || b[category].length === 0) return;
+    weightedSum += TAG_CATEGORY_WEIGHTS[category] * jaccard(a[category], b[category], tag => canonicalTag(taxonomy, category, tag));
+    totalWeight += TAG_CATEGORY_WEIGHTS[category];
+  });
+
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+};
+
+// Tag score of every candidate video against one source video, keyed by video ID
+export const tagScoresFor = (source: VideoData, candidates: VideoData[], taxonomy: Taxonomy) => {
+  const sourceTags = extractVideoTags(source.user_metadata);
+  return new Map(
+    candidates.map(video => [video._id, tagSimilarity(sourceTags, extractVideoTags(video.user_metadata), taxonomy)])
+  );
+};
@@ -0,0 +1,260 @@
+import { TagCategory, Taxonomy, TaxonomyCategory } from '@/types';
+import { TAG_CATEGORIES } from '@/utils/videoTags';
+
+// Used until an edited taxonomy is saved
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  categories: [
+    {
+      id: 'gender',
+      label: 'Gender',
+      filterLabel: 'Target Demo: Gender',
+      values: ['Male', 'Female'],
+      synonyms: { men: 'Male', man: 'Male', women: 'Female', woman: 'Female' },
+      open: false
+    },
+    {
+      id: 'age',
+      label: 'Age',
+      filterLabel: 'Target Demo: Age',
+      values: ['18-25', '25-34', '35-44', '45-54', '55+'],
+      synonyms: {},
+      open: false
+    },
+    {
+      id: 'topic',
+      label: 'Topic',
+      filterLabel: 'Topic Category',
+      values: ['Beauty', 'Fashion', 'Tech', 'Travel', 'CPG', 'Food & Bev', 'Retail', 'Other'],
+      synonyms: { technology: 'Tech', food: 'Food & Bev', bev: 'Food & Bev', 'food & beverage': 'Food & Bev' },
+      open: false
+    },
+    {
+      id: 'emotions',
+      label: 'Emotions',
+      filterLabel: 'Emotions',
+      values: [
+        'sorrow', 'happiness', 'laughter', 'anger', 'empathy', 'fear', 'love',
+        'trust', 'sadness', 'belonging', 'guilt', 'compassion', 'pride'
+      ],
+      synonyms: { happy: 'happiness', joy: 'happiness', sad: 'sadness', funny: 'laughter' },
+      open: false
+    },
+    {
+      id: 'locations',
+      label: 'Location',
+      filterLabel: 'Location',
+      values: [
+        'Seoul', 'Dubai', 'Doha', 'New York', 'Paris', 'Tokyo', 'London', 'Berlin',
+        'Las Vegas', 'France', 'Korea', 'Qatar', 'UAE', 'USA', 'Boca Chica'
+      ],
+      synonyms: {},
+      open: true
+    },
+    {
+      id: 'brands',
+      label: 'Brands',
+      filterLabel: 'Brands',
+      values: [
+        'Fenty Beauty', 'Adidas', 'Nike', 'SpaceX', 'Apple', 'Microsoft', 'Google', 'Amazon',
+        'Ferrari', 'Heineken', 'Red Bull Racing', 'Red Bull', 'SailGP', 'FIFA World Cup', 'FIFA',
+        'Tour de France', 'NTT Data', 'Oracle', 'Maybelline'
+      ],
+      synonyms: {},
+      open: true
+    }
+  ]
+};
+
+// Labels older prompts used in their labeled output
+const LEGACY_LABELS: Record<string, TagCategory> = {
+  'demographics gender': 'gender',
+  'demographics age': 'age',
+  'topic category': 'topic'
+};
+
+// Hashtags drop spaces, so values and tags are compared without them
+const valueKey = (value: string) => value.toLowerCase().replace(/[\s#]/g, '');
+
+const lookupFor = (category: TaxonomyCategory) => {
+  const lookup = new Map<string, string>();
+  category.values.forEach(value => lookup.set(valueKey(value), value));
+  Object.entries(category.synonyms).forEach(([alias, value]) => {
+    if (!lookup.has(valueKey(alias))) lookup.set(valueKey(alias), lookup.get(valueKey(value)) || value);
+  });
+  return lookup;
+};
+
+// The taxonomy spelling of a value, or null when a closed vocabulary does not allow it
+export const normalizeTaxonomyValue = (category: TaxonomyCategory, value: string): string | null => {
+  const trimmed = value.trim().replace(/^#/, '');
+  if (!trimmed) return null;
+  return lookupFor(category).get(valueKey(trimmed)) || (category.open ? trimmed : null);
+};
+
+const emptyTags = () =>
+  Object.fromEntries(TAG_CATEGORIES.map(category => [category, [] as string[]])) as Record<TagCategory, string[]>;
+
+const addTag = (tags: string[], value: string) => {
+  if (!tags.some(tag => valueKey(tag) === valueKey(value))) tags.push(value);
+};
+
+// Tags per category from generated text, normalized to the taxonomy. Handles the labeled output of the
+// current prompt ("Gender: female") and bare hashtags from older ones ("#female #tech #newyork").
+export const parseTaxonomyTags = (text: string, taxonomy: Taxonomy): Record<TagCategory, string[]> => {
+  const tags = emptyTags();
+  const categoryById = new Map(taxonomy.categories.map(category => [category.id, category]));
+  const categoryByLabel = new Map<string, TaxonomyCategory>();
+  Object.entries(LEGACY_LABELS).forEach(([label, id]) => {
+    if (categoryById.has(id)) categoryByLabel.set(label, categoryById.get(id)!);
+  });
+  taxonomy.categories.forEach(category => categoryByLabel.set(category.label.toLowerCase(), category));
+
+  let labeled = false;
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const category = categoryByLabel.get(line.slice(0, separator).trim().toLowerCase());
+    if (!category) return;
+
+    labeled = true;
+    line.slice(separator + 1).split(',').forEach(value => {
+      const normalized = normalizeTaxonomyValue(category, value);
+      if (normalized) addTag(tags[category.id], normalized);
+    });
+  });
+  if (labeled) return tags;
+
+  const unclassified: string[] = [];
+  text.split(/\s+/).filter(word => word.startsWith('#') && word.length > 1).forEach(hashtag => {
+    const tag = hashtag.slice(1);
+    const match = taxonomy.categories
+      .map(category => ({ category, value: lookupFor(category).get(valueKey(tag)) }))
+      .find(({ value }) => value);
+
+    if (match) {
+      addTag(tags[match.category.id], match.value!);
+    } else {
+      unclassified.push(tag.toLowerCase());
+    }
+  });
+
+  // Open categories that found nothing take the next unclassified hashtag, in taxonomy order
+  taxonomy.categories.forEach(category => {
+    if (category.open && tags[category.id].length === 0 && unclassified.length > 0) {
+      tags[category.id].push(unclassified.shift()!);
+    }
+  });
+
+  return tags;
+};
+
+// Hashtag-generation prompt listing the allowed values of every closed category
+export const buildTaggingPrompt = (taxonomy: Taxonomy) => {
+  const closed = taxonomy.categories.filter(category => !category.open);
+  const open = taxonomy.categories.filter(category => category.open);
+  const openLabels = open.map(category => category.label).join(' and ');
+
+  return `You are a marketing assistant specialized in generating hashtags for video content.
+
+Based on the input video metadata, generate a list of hashtags labeled by category.
+
+**Output Format:**
+Each line must be in the format:
+[Category]: [Hashtag]
+(e.g., sector: #beauty)
+
+
+**Allowed Values:**
+
+${closed.map(category => `${category.label}: ${category.values.join(', ')}`).join('\n')}
+
+**Instructions:**
+
+1. Use only the values provided in Allowed Values.
+2. Do not invent new values${openLabels ? ` except for ${openLabels}` : ''}. Only use values from the Allowed Values.
+3. Output must contain at least one hashtag for each of the following categories:
+${taxonomy.categories.map(category => `  - ${category.label}`).join('\n')}
+
+4. Do not output any explanations or category names—only return the final hashtag list.
+
+**Output Example:**
+
+${taxonomy.categories.map(category => `${category.label}: ${category.values[0] || category.label}`).join('\n')}
+
+---
+`;
+};
+
+const cleanStrings = (values: unknown[]) => {
+  const seen = new Set<string>();
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.trim())
+    .filter(value => {
+      if (!value || seen.has(valueKey(value))) return false;
+      seen.add(valueKey(value));
+      return true;
+    });
+};
+
+// Validate a taxonomy from a request body. Every tag category must appear exactly once.
+export const resolveTaxonomy = (input: Partial<Taxonomy>): { taxonomy?: Taxonomy; error?: string } => {
+  if (!Array.isArray(input?.categories)) {
+    return { error: 'categories must be an array' };
+  }
+
+  const categories: TaxonomyCategory[] = [];
+  for (const category of input.categories as Partial<TaxonomyCategory>[]) {
+    const { id, label, filterLabel, values, synonyms, open } = category || {};
+
+    if (!id || !TAG_CATEGORIES.includes(id)) {
+      return { error: `Unsupported category: ${id}` };
+    }
+    if (categories.some(existing => existing.id === id)) {
+      return { error: `Category ${id} is listed more than once` };
+    }
+    if (!label || typeof label !== 'string' || !label.trim()) {
+      return { error: `Category ${id} needs a label` };
+    }
+    if (categories.some(existing => existing.label.toLowerCase() === label.trim().toLowerCase())) {
+      return { error: `Label ${label.trim()} is used by more than one category` };
+    }
+    if (!Array.isArray(values)) {
+      return { error: `values of ${id} must be an array of strings` };
+    }
+    if (synonyms !== undefined && (typeof synonyms !== 'object' || synonyms === null || Array.isArray(synonyms))) {
+      return { error: `synonyms of ${id} must map alternative spellings to values` };
+    }
+
+    const cleanValues = cleanStrings(values);
+    if (!open && cleanValues.length === 0) {
+      return { error: `Closed category ${id} needs at least one allowed value` };
+    }
+
+    const cleanSynonyms: Record<string, string> = {};
+    for (const [alias, value] of Object.entries(synonyms || {})) {
+      if (typeof value !== 'string' || !alias.trim() || !value.trim()) continue;
+      const target = cleanValues.find(allowed => valueKey(allowed) === valueKey(value));
+      if (!target && !open) {
+        return { error: `Synonym ${alias} of ${id} maps to ${value}, which is not an allowed value` };
+      }
+      cleanSynonyms[alias.trim().toLowerCase()] = target || value.trim();
+    }
+
+    categories.push({
+      id,
+      label: label.trim(),
+      filterLabel: typeof filterLabel === 'string' && filterLabel.trim() ? filterLabel.trim() : label.trim(),
+      values: cleanValues,
+      synonyms: cleanSynonyms,
+      open: Boolean(open)
+    });
+  }
+
+  const missing = TAG_CATEGORIES.filter(category => !categories.some(existing => existing.id === category));
+  if (missing.length > 0) {
+    return { error: `Missing categories: ${missing.join(', ')}` };
+  }
+
+  return { taxonomy: { categories } };
+};
@@ -0,0 +1,15 @@
+import { Taxonomy } from '@/types';
+import { readJsonDocument, writeJsonDocument } from '@/utils/jsonStore';
+import { DEFAULT_TAXONOMY } from '@/utils/taxonomy';
+
+const TAXONOMY_DOCUMENT = 'taxonomy';
+
+export const getTaxonomy = async (): Promise<Taxonomy> => {
+  return (await readJsonDocument<Taxonomy>(TAXONOMY_DOCUMENT)) || DEFAULT_TAXONOMY;
+};
+
+export const saveTaxonomy = async (taxonomy: Taxonomy): Promise<Taxonomy> => {
+  const saved = { ...taxonomy, updatedAt: new Date().toISOString() };
+  await writeJsonDocument(TAXONOMY_DOCUMENT, saved);
+  return saved;
+};
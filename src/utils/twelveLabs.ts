@@ -0,0 +1,139 @@
+import { ChaptersData, VideoData, VideoDetailWithEmbedding } from '@/types';
+
+const API_KEY = process.env.TWELVELABS_API_KEY;
+const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+
+// Twelve Labs allows at most 50 videos per page
+const PAGE_LIMIT = 50;
+
+const DEFAULT_EMBEDDING_MODEL = 'Marengo-retrieval-2.7';
+
+// Embedding model currently used for new vectors and text queries
+export const getCurrentEmbeddingModel = () => {
+  return process.env.TWELVELABS_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+};
+
+export const getTwelveLabsConfig = () => {
+  if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+    throw new Error('API credentials not configured');
+  }
+  return { apiKey: API_KEY, baseUrl: TWELVELABS_API_BASE_URL };
+};
+
+// Fetch every video in an index, following pagination on the server
+export const listIndexVideos = async (indexId: string): Promise<VideoData[]> => {
+  const { apiKey, baseUrl } = getTwelveLabsConfig();
+  const videos: VideoData[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await fetch(
+      `${baseUrl}/indexes/${indexId}/videos?page=${page}&page_limit=${PAGE_LIMIT}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to fetch videos for index ${indexId}: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    videos.push(...(data.data || []));
+    totalPages = data.page_info?.total_page || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return videos;
+};
+
+// The ranking routes run one after another for every settings change, so they share a short-lived listing
+const VIDEO_LIST_TTL_MS = 30 * 1000;
+const videoListCache = new Map<string, { expiresAt: number; videos: Promise<VideoData[]> }>();
+
+// listIndexVideos, reused for up to 30 seconds. Only for callers that can live with a slightly stale list.
+export const listIndexVideosCached = (indexId: string): Promise<VideoData[]> => {
+  const cached = videoListCache.get(indexId);
+  if (cached && cached.expiresAt > Date.now()) return cached.videos;
+
+  const videos = listIndexVideos(indexId);
+  videoListCache.set(indexId, { expiresAt: Date.now() + VIDEO_LIST_TTL_MS, videos });
+  // A failed listing is not reused
+  videos.catch(() => videoListCache.delete(indexId));
+  return videos;
+};
+
+// Fetch a single video together with its embeddings
+export const fetchVideoEmbedding = async (indexId: string, videoId: string) => {
+  const { apiKey, baseUrl } = getTwelveLabsConfig();
+
+  const response = await fetch(
+    `${baseUrl}/indexes/${indexId}/videos/${videoId}?embedding_option=visual-text&embedding_option=audio`,
+    {
+      method: 'GET',
+      headers: {
+        'x-api-key': apiKey,
+        'Accept': 'application/json',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    return { video: null, status: response.status, details: await response.text() };
+  }
+
+  const video: VideoDetailWithEmbedding = await response.json();
+  return { video, status: response.status, details: '' };
+};
+
+// Fetch a single video's details without embeddings
+export const fetchVideo = async (indexId: string, videoId: string) => {
+  const { apiKey, baseUrl } = getTwelveLabsConfig();
+
+  const response = await fetch(`${baseUrl}/indexes/${indexId}/videos/${videoId}`, {
+    method: 'GET',
+    headers: {
+      'x-api-key': apiKey,
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    return { video: null, status: response.status, details: await response.text() };
+  }
+
+  const video: VideoData = await response.json();
+  return { video, status: response.status, details: '' };
+};
+
+const CHAPTER_PROMPT = "Chapterize this video into 3 chapters. For every chapter, describe why it is a strategically appropriate point for placing an advertisement. Do not mention what type of advertisement would be suitable, as the ad content has already been determined. ";
+
+// Chapters with a placement rationale each; the end of every chapter is a candidate ad break
+export const fetchVideoChapters = async (videoId: string): Promise<ChaptersData> => {
+  const { apiKey, baseUrl } = getTwelveLabsConfig();
+
+  const response = await fetch(`${baseUrl}/summarize`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+    },
+    body: JSON.stringify({ type: 'chapter', video_id: videoId, prompt: CHAPTER_PROMPT })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Network response was not ok: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (!data) {
+    throw new Error('Empty response from API');
+  }
+  return data;
+};
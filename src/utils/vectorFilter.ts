@@ -0,0 +1,61 @@
+import { VectorFilter, VectorRecordMetadata } from '@/types';
+
+const compareValues = (actual: unknown, operator: string, expected: unknown): boolean => {
+  switch (operator) {
+    case '$eq':
+      return Array.isArray(actual) ? actual.includes(expected as string) : actual === expected;
+    case '$ne':
+      return Array.isArray(actual) ? !actual.includes(expected as string) : actual !== expected;
+    case '$in':
+      return Array.isArray(expected) && (Array.isArray(actual)
+        ? actual.some(value => expected.includes(value))
+        : expected.includes(actual));
+    case '$nin':
+      return Array.isArray(expected) && (Array.isArray(actual)
+        ? !actual.some(value => expected.includes(value))
+        : !expected.includes(actual));
+    case '$gt':
+      return typeof actual === 'number' && actual > (expected as number);
+    case '$gte':
+      return typeof actual === 'number' && actual >= (expected as number);
+    case '$lt':
+      return typeof actual === 'number' && actual < (expected as number);
+    case '$lte':
+      return typeof actual === 'number' && actual <= (expected as number);
+    case '$exists':
+      return (actual !== undefined) === Boolean(expected);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+};
+
+// Evaluates the subset of Pinecone's metadata filter language used by this app
+export const matchesFilter = (metadata: VectorRecordMetadata | undefined, filter?: VectorFilter): boolean => {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as VectorFilter[]).every(subFilter => matchesFilter(metadata, subFilter));
+    }
+    if (key === '$or') {
+      return (condition as VectorFilter[]).some(subFilter => matchesFilter(metadata, subFilter));
+    }
+
+    const actual = metadata?.[key];
+
+    if (condition !== null && typeof condition === 'object' && !Array.isArray(condition)) {
+      return Object.entries(condition as Record<string, unknown>)
+        .every(([operator, expected]) => compareValues(actual, operator, expected));
+    }
+
+    return compareValues(actual, '$eq', condition);
+  });
+};
+
+// Vectors not produced by the given model, including ones stored before the model was recorded
+export const staleModelFilter = (currentModel: string): VectorFilter => ({
+  $or: [
+    { embedding_model: { $exists: false } },
+    { embedding_model: { $ne: currentModel } }
+  ]
+});
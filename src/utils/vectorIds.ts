@@ -0,0 +1,49 @@
+// Vector IDs are derived from TwelveLabs identifiers so they never depend on video titles.
+// Format: <tl_index_id>#<tl_video_id>#<embedding_option>#<scope>#<start_offset>
+// The shared <tl_index_id>#<tl_video_id># prefix lets a video's vectors be listed by prefix.
+
+const SEPARATOR = '#';
+export const DEFAULT_EMBEDDING_OPTION = 'visual-text';
+
+export interface VectorIdParts {
+  indexId: string;
+  videoId: string;
+  scope: string;
+  startOffset: number;
+  embeddingOption?: string;
+}
+
+// Keep offsets stable across float formatting differences (e.g. 6 vs 6.0)
+const formatOffset = (offset: number) => (Number(offset) || 0).toFixed(3);
+
+export const getIndexVectorIdPrefix = (indexId: string) => {
+  return `${indexId}${SEPARATOR}`;
+};
+
+export const getVideoVectorIdPrefix = (indexId: string, videoId: string) => {
+  return `${getIndexVectorIdPrefix(indexId)}${videoId}${SEPARATOR}`;
+};
+
+export const buildVectorId = ({ indexId, videoId, scope, startOffset, embeddingOption }: VectorIdParts) => {
+  return [
+    indexId,
+    videoId,
+    embeddingOption || DEFAULT_EMBEDDING_OPTION,
+    scope,
+    formatOffset(startOffset)
+  ].join(SEPARATOR);
+};
+
+export const parseVectorId = (id: string): VectorIdParts | null => {
+  const parts = id.split(SEPARATOR);
+  if (parts.length !== 5 || parts.some(part => part === '')) return null;
+
+  const [indexId, videoId, embeddingOption, scope, startOffset] = parts;
+  const parsedOffset = Number(startOffset);
+  if (Number.isNaN(parsedOffset)) return null;
+
+  return { indexId, videoId, embeddingOption, scope, startOffset: parsedOffset };
+};
+
+// True for IDs produced by buildVectorId, false for legacy `<title>_segmentN` IDs
+export const isStableVectorId = (id: string) => parseVectorId(id) !== null;
@@ -0,0 +1,76 @@
+import { randomUUID } from 'crypto';
+import { VectorJob, VectorJobKind } from '@/types';
+import { backgroundJobsUnsupported } from '@/utils/runtime';
+
+// Jobs run in the background of this server process; only the latest ones are kept.
+// Routes refuse to start them on serverless platforms, see utils/runtime.
+const MAX_JOBS = 20;
+const jobs = new Map<string, VectorJob>();
+
+interface VideoRef {
+  indexId: string;
+  videoId: string;
+}
+
+export const getVectorJob = (jobId: string) => jobs.get(jobId);
+
+// Jobs rewrite vectors, so only one may run at a time
+export const getRunningVectorJob = () => {
+  return Array.from(jobs.values()).find(job => job.status === 'running');
+};
+
+const trimJobs = () => {
+  const finished = Array.from(jobs.values()).filter(job => job.status !== 'running');
+  while (jobs.size > MAX_JOBS && finished.length > 0) {
+    jobs.delete(finished.shift()!.id);
+  }
+};
+
+// Process each video in the background; the worker throws to record a failure
+export const startVectorJob = (
+  kind: VectorJobKind,
+  videos: VideoRef[],
+  worker: (video: VideoRef) => Promise<void>
+): VectorJob => {
+  const unsupported = backgroundJobsUnsupported();
+  if (unsupported) throw new Error(unsupported);
+
+  const job: VectorJob = {
+    id: randomUUID(),
+    kind,
+    status: 'running',
+    total: videos.length,
+    processed: 0,
+    succeeded: 0,
+    failures: [],
+    startedAt: new Date().toISOString()
+  };
+  jobs.set(job.id, job);
+  trimJobs();
+
+  const run = async () => {
+    for (const video of videos) {
+      try {
+        await worker(video);
+        job.succeeded++;
+      } catch (error) {
+        console.error(`❌ ${kind} job failed for video ${video.videoId}:`, error);
+        job.failures.push({ ...video, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      job.processed++;
+    }
+
+    job.status = job.failures.length === job.total && job.total > 0 ? 'failed' : 'completed';
+    job.finishedAt = new Date().toISOString();
+    console.log(`✅ ${kind} job ${job.id} finished: ${job.succeeded}/${job.total} videos`);
+  };
+
+  // Not awaited: clients poll /api/vectors/jobs for progress
+  run().catch(error => {
+    console.error(`❌ ${kind} job ${job.id} crashed:`, error);
+    job.status = 'failed';
+    job.finishedAt = new Date().toISOString();
+  });
+
+  return job;
+};
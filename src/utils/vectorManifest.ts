@@ -0,0 +1,109 @@
+import { VectorStore, VideoVectorManifest, VideoEmbeddingStatus } from '@/types';
+import { getIndexVectorIdPrefix, getVideoVectorIdPrefix, parseVectorId } from '@/utils/vectorIds';
+
+const FETCH_BATCH_SIZE = 100;
+
+const emptyManifest = (indexId: string, videoId: string): VideoVectorManifest => ({
+  videoId,
+  indexId,
+  exists: false,
+  vectorIds: [],
+  segmentCount: 0,
+  expectedSegmentCount: null,
+  scopes: {},
+  embeddingOptions: [],
+  model: null
+});
+
+// Group stable vector IDs by video without touching vector values
+const buildManifestsFromIds = (indexId: string, ids: string[]) => {
+  const manifests: Record<string, VideoVectorManifest> = {};
+
+  ids.forEach(id => {
+    const parts = parseVectorId(id);
+    if (!parts || parts.indexId !== indexId) return;
+
+    const manifest = manifests[parts.videoId] || emptyManifest(indexId, parts.videoId);
+    manifest.exists = true;
+    manifest.vectorIds.push(id);
+    manifest.segmentCount += 1;
+    manifest.scopes[parts.scope] = (manifest.scopes[parts.scope] || 0) + 1;
+    if (parts.embeddingOption && !manifest.embeddingOptions.includes(parts.embeddingOption)) {
+      manifest.embeddingOptions.push(parts.embeddingOption);
+    }
+    manifests[parts.videoId] = manifest;
+  });
+
+  return manifests;
+};
+
+// Model and expected segment count are only in metadata, so fetch one representative vector per video
+const attachSampleMetadata = async (vectorStore: VectorStore, manifests: VideoVectorManifest[]) => {
+  const manifestsByVideo = new Map(manifests.map(manifest => [manifest.videoId, manifest]));
+  const sampleIds = manifests.filter(manifest => manifest.exists).map(manifest => manifest.vectorIds[0]);
+
+  for (let i = 0; i < sampleIds.length; i += FETCH_BATCH_SIZE) {
+    const records = await vectorStore.fetch(sampleIds.slice(i, i + FETCH_BATCH_SIZE));
+    Object.values(records).forEach(record => {
+      const parts = parseVectorId(record.id);
+      const manifest = parts ? manifestsByVideo.get(parts.videoId) : undefined;
+      if (!manifest) return;
+
+      const model = record.metadata?.embedding_model;
+      const segmentTotal = record.metadata?.segment_total;
+      if (model) manifest.model = String(model);
+      if (segmentTotal !== undefined) manifest.expectedSegmentCount = Number(segmentTotal);
+    });
+  }
+};
+
+// Manifest for a single video, looked up by its ID prefix
+export const getVideoVectorManifest = async (
+  vectorStore: VectorStore,
+  indexId: string,
+  videoId: string
+): Promise<VideoVectorManifest> => {
+  const ids = await vectorStore.listIds(getVideoVectorIdPrefix(indexId, videoId));
+  const manifest = buildManifestsFromIds(indexId, ids)[videoId] || emptyManifest(indexId, videoId);
+  await attachSampleMetadata(vectorStore, [manifest]);
+  return manifest;
+};
+
+// Manifests for a whole index with a single prefix listing; videoIds limits the result
+export const getIndexVectorManifests = async (
+  vectorStore: VectorStore,
+  indexId: string,
+  videoIds?: string[]
+): Promise<Record<string, VideoVectorManifest>> => {
+  const ids = await vectorStore.listIds(getIndexVectorIdPrefix(indexId));
+  const manifests = buildManifestsFromIds(indexId, ids);
+
+  const result: Record<string, VideoVectorManifest> = {};
+  (videoIds || Object.keys(manifests)).forEach(videoId => {
+    result[videoId] = manifests[videoId] || emptyManifest(indexId, videoId);
+  });
+
+  await attachSampleMetadata(vectorStore, Object.values(result));
+  return result;
+};
+
+// Classify a manifest: stale model wins over partial so it gets fully re-embedded
+export const getEmbeddingStatus = (manifest: VideoVectorManifest, currentModel: string): VideoEmbeddingStatus => {
+  let state: VideoEmbeddingStatus['state'] = 'complete';
+
+  if (!manifest.exists) {
+    state = 'missing';
+  } else if (manifest.model && manifest.model !== currentModel) {
+    state = 'stale_model';
+  } else if (manifest.expectedSegmentCount !== null && manifest.segmentCount < manifest.expectedSegmentCount) {
+    state = 'partial';
+  }
+
+  return {
+    videoId: manifest.videoId,
+    state,
+    segmentCount: manifest.segmentCount,
+    expectedSegmentCount: manifest.expectedSegmentCount,
+    model: manifest.model
+  };
+};
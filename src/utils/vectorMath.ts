@@ -0,0 +1,26 @@
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// Element-wise mean of equally sized vectors, or null when there are none
+export const meanVector = (vectors: number[][]): number[] | null => {
+  if (vectors.length === 0) return null;
+
+  const mean = new Array<number>(vectors[0].length).fill(0);
+  vectors.forEach(vector => {
+    for (let i = 0; i < mean.length; i++) mean[i] += (vector[i] ?? 0) / vectors.length;
+  });
+  return mean;
+};
@@ -0,0 +1,36 @@
+import { VectorStore, VectorStoreBackend } from '@/types';
+import { createPineconeVectorStore, checkPineconeEnvironment } from '@/utils/pinecone';
+import { createLocalVectorStore } from '@/utils/localVectorStore';
+
+// Selects the vector backend: 'pinecone' (default) or 'local' for offline development
+export const getVectorStoreBackend = (): VectorStoreBackend => {
+  return process.env.VECTOR_STORE_BACKEND === 'local' ? 'local' : 'pinecone';
+};
+
+let vectorStore: VectorStore | null = null;
+
+// Vector store 반환
+export const getVectorStore = (): VectorStore => {
+  if (vectorStore) return vectorStore;
+
+  const backend = getVectorStoreBackend();
+  vectorStore = backend === 'local' ? createLocalVectorStore() : createPineconeVectorStore();
+  console.log(`✅ Using ${backend} vector store`);
+  return vectorStore;
+};
+
+// Check that the configured backend has everything it needs
+export const checkVectorStoreEnvironment = () => {
+  const backend = getVectorStoreBackend();
+
+  if (backend === 'local') {
+    return {
+      success: true,
+      backend,
+      message: 'Local vector store does not require credentials',
+      storePath: process.env.LOCAL_VECTOR_STORE_PATH || '.vector-store/vectors.json'
+    };
+  }
+
+  return { ...checkPineconeEnvironment(), backend };
+};
@@ -0,0 +1,131 @@
+import { UpsertBatchOutcome, UpsertReport, VectorRecord, VectorStore } from '@/types';
+
+interface UpsertOptions {
+  batchSize?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // Undo the batches that did get written when any batch fails for good
+  rollbackOnFailure?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<UpsertOptions> = {
+  batchSize: 100,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  rollbackOnFailure: true
+};
+
+// Rate limits, server errors and dropped connections are worth retrying; bad requests are not
+export const isTransientError = (error: unknown) => {
+  if (!(error instanceof Error)) return false;
+  const text = `${error.name} ${error.message}`;
+  return /Connection|Unavailable|InternalServer|TooManyRequests|RateLimit|Timeout|ECONNRESET|ETIMEDOUT|fetch failed|\b(429|5\d\d)\b/i.test(text);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Ids per fetch call when saving the records an upsert is about to overwrite
+const FETCH_BATCH_SIZE = 100;
+
+const fetchExisting = async (vectorStore: VectorStore, ids: string[]) => {
+  const existing: Record<string, VectorRecord> = {};
+  for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+    Object.assign(existing, await vectorStore.fetch(ids.slice(i, i + FETCH_BATCH_SIZE)));
+  }
+  return existing;
+};
+
+// Put the stored IDs back the way they were: delete the new ones and rewrite the records they replaced
+const rollBack = async (
+  vectorStore: VectorStore,
+  storedIds: string[],
+  previous: Record<string, VectorRecord>,
+  batchSize: number
+) => {
+  const newIds = storedIds.filter(id => !previous[id]);
+  const replaced = storedIds.filter(id => previous[id]).map(id => previous[id]);
+
+  if (newIds.length > 0) await vectorStore.deleteIds(newIds);
+  for (let i = 0; i < replaced.length; i += batchSize) {
+    await vectorStore.upsert(replaced.slice(i, i + batchSize));
+  }
+};
+
+// Upsert in batches with exponential backoff. Vector IDs are deterministic, so resending a batch is idempotent.
+export const upsertInBatches = async (
+  vectorStore: VectorStore,
+  vectors: VectorRecord[],
+  options: UpsertOptions = {}
+): Promise<UpsertReport> => {
+  const { batchSize, maxRetries, baseDelayMs, rollbackOnFailure } = { ...DEFAULT_OPTIONS, ...options };
+  const report: UpsertReport = { stored: 0, failed: 0, batches: [], rolledBack: false };
+
+  if (vectors.length === 0) return report;
+
+  // One connectivity check up front instead of one per batch
+  try {
+    await vectorStore.describeStats();
+  } catch (error) {
+    throw new Error(`Failed to connect to vector store: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // IDs are deterministic, so a re-ingest overwrites the video's current vectors. Keep them for a rollback.
+  let previous: Record<string, VectorRecord> = {};
+  if (rollbackOnFailure) {
+    try {
+      previous = await fetchExisting(vectorStore, vectors.map(vector => vector.id));
+    } catch (error) {
+      throw new Error(`Failed to read existing vectors before upsert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const storedIds: string[] = [];
+
+  for (let i = 0; i < vectors.length; i += batchSize) {
+    const batch = vectors.slice(i, i + batchSize);
+    const outcome: UpsertBatchOutcome = {
+      batch: Math.floor(i / batchSize) + 1,
+      size: batch.length,
+      attempts: 0,
+      status: 'failed'
+    };
+
+    while (outcome.attempts <= maxRetries) {
+      outcome.attempts++;
+      try {
+        await vectorStore.upsert(batch);
+        outcome.status = 'stored';
+        delete outcome.error;
+        break;
+      } catch (error) {
+        outcome.error = error instanceof Error ? error.message : 'Unknown error';
+        if (!isTransientError(error) || outcome.attempts > maxRetries) break;
+
+        const delay = baseDelayMs * 2 ** (outcome.attempts - 1);
+        console.warn(`⚠️ Upsert batch ${outcome.batch} failed (attempt ${outcome.attempts}), retrying in ${delay}ms:`, outcome.error);
+        await sleep(delay);
+      }
+    }
+
+    if (outcome.status === 'stored') {
+      report.stored += batch.length;
+      storedIds.push(...batch.map(vector => vector.id));
+    } else {
+      report.failed += batch.length;
+      console.error(`❌ Upsert batch ${outcome.batch} failed after ${outcome.attempts} attempts: ${outcome.error}`);
+    }
+    report.batches.push(outcome);
+  }
+
+  if (report.failed > 0 && rollbackOnFailure && storedIds.length > 0) {
+    try {
+      await rollBack(vectorStore, storedIds, previous, batchSize);
+      report.rolledBack = true;
+      report.stored = 0;
+    } catch (error) {
+      console.error(`❌ Failed to roll back ${storedIds.length} vectors:`, error);
+    }
+  }
+
+  return report;
+};
@@ -0,0 +1,42 @@
+import { TagCategory } from '@/types';
+
+// user_metadata fields read for each tag category; the alternatives come from older uploads
+export const TAG_CATEGORY_FIELDS: Record<TagCategory, string[]> = {
+  topic: ['sector', 'topic_category'],
+  emotions: ['emotions'],
+  brands: ['brands'],
+  locations: ['locations', 'location'],
+  gender: ['demographics_gender', 'demo_gender'],
+  age: ['demographics_age', 'demo_age']
+};
+
+export const TAG_CATEGORIES = Object.keys(TAG_CATEGORY_FIELDS) as TagCategory[];
+
+const GENDER_KEYWORDS = ['male', 'female', 'men', 'women'];
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const splitTags = (value: unknown) =>
+  typeof value === 'string'
+    ? value.split(',').map(normalizeTag).filter(tag => tag.length > 0)
+    : [];
+
+// Lower-cased, de-duplicated tags per category from a video's user_metadata
+export const extractVideoTags = (metadata: Record<string, unknown> | undefined): Record<TagCategory, string[]> => {
+  const tags = new Map<TagCategory, Set<string>>(TAG_CATEGORIES.map(category => [category, new Set<string>()]));
+
+  TAG_CATEGORIES.forEach(category => {
+    TAG_CATEGORY_FIELDS[category].forEach(field => {
+      splitTags(metadata?.[field]).forEach(tag => tags.get(category)!.add(tag));
+    });
+  });
+
+  // The legacy demographics field mixes gender and age values
+  splitTags(metadata?.demographics).forEach(tag => {
+    tags.get(GENDER_KEYWORDS.some(keyword => tag.includes(keyword)) ? 'gender' : 'age')!.add(tag);
+  });
+
+  return Object.fromEntries(
+    TAG_CATEGORIES.map(category => [category, Array.from(tags.get(category)!)])
+  ) as Record<TagCategory, string[]>;
+};